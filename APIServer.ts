@@ -1,12 +1,37 @@
 // src/api/APIServer.ts (Final Fix for Event Loop Blockage)
 
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Application, Request, Response, NextFunction } from 'express';
 // ... (all other imports remain the same) ...
 import { config } from '../config'; 
 import logger from '../utils/logger'; 
+import mevRoutes from '../routes/mev-routes';
+import tradeRoutes from '../routes/trade-routes';
+import riskRoutes from '../routes/risk-routes';
+import metricsRoutes from '../routes/metrics-routes';
+import { collectEventMetrics } from '../metrics';
+import { EventStreamServer } from './eventstream';
 
 export class APIServer {
-    // ... (properties and constructor remain the same) ...
+    private app: Application;
+    private eventStream: EventStreamServer;
+
+    constructor() {
+        this.app = express();
+        this.eventStream = new EventStreamServer(config.server.wsPort);
+        collectEventMetrics();
+        this.app.use(express.json());
+        this.setupRoutes();
+    }
+
+    private setupRoutes(): void {
+        this.app.use('/mev', mevRoutes);
+        // Trade history and PnL: /trades, /trades/:id, /pnl
+        this.app.use(tradeRoutes);
+        // Circuit breaker: /risk, /risk/:scope/resume
+        this.app.use(riskRoutes);
+        // Prometheus: /metrics
+        this.app.use(metricsRoutes);
+    }
 
     // NEW METHOD: Handle heavy initialization asynchronously
     private async initializeEngine(): Promise<void> {
@@ -40,6 +65,8 @@ export class APIServer {
             logger.info(`[INIT STEP 4] API Server is listening on host ${host} port ${port}`);
             logger.info(`Backend URL should be reachable.`);
             
+            this.eventStream.start();
+            
             // 🚨 CRITICAL FIX: Immediately call the asynchronous initialization 
             // after the server is CONFIRMED to be listening.
             this.initializeEngine();
@@ -0,0 +1,236 @@
+// SPDX-License-Identifier: MIT
+// contracts/FlashLoanArbitrage.sol
+pragma solidity ^0.8.20;
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function approve(address spender, uint256 amount) external returns (bool);
+}
+
+interface IAavePool {
+    function flashLoanSimple(address receiverAddress, address asset, uint256 amount, bytes calldata params, uint16 referralCode) external;
+}
+
+interface IBalancerVault {
+    function flashLoan(address recipient, address[] calldata tokens, uint256[] calldata amounts, bytes calldata userData) external;
+}
+
+interface IUniswapV2Pair {
+    function token0() external view returns (address);
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata data) external;
+}
+
+interface IUniswapV2Router {
+    function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external returns (uint256[] memory amounts);
+}
+
+// Uniswap V3 SwapRouter (and PancakeSwap V3's), whose exactInput still takes a deadline
+interface IV3SwapRouter {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut);
+}
+
+/**
+ * Flash-loan arbitrage across two DEX legs, funded by whichever lender the bot picked
+ * (src/flashloan.ts builds the calls):
+ *
+ *   executeArbitrage          Aave, two V2 legs; the original entry point, kept unchanged
+ *   executeArbitrageRoute     Aave, any legs
+ *   executeBalancerFlashLoan  Balancer vault, any legs
+ *   executeFlashSwap          flash swap out of a V2 pair the route does not trade through
+ *
+ * A route is abi.encode(Leg buy, Leg sell). A V2 leg's path is an abi-encoded address[]; a
+ * V3 leg's is the router's packed (token, fee, token, ...) path. Every loan is started by
+ * the owner through this contract, which records the lender it called; a callback from any
+ * other address, or one this contract did not start, reverts. The trade reverts unless it
+ * repays the loan with profit left over, and the profit stays here until withdrawn.
+ */
+contract FlashLoanArbitrage {
+    uint8 private constant KIND_V2 = 0;
+    uint8 private constant KIND_V3 = 1;
+
+    struct Leg {
+        uint8 kind;
+        address router;
+        bytes path;
+    }
+
+    address public immutable owner;
+    address public immutable aavePool;
+
+    // The lender this contract is borrowing from, set only while its loan is being taken
+    address private activeLender;
+
+    event ArbitrageExecuted(address indexed tokenBorrowed, uint256 amount, uint256 profit, address dexBuy, address dexSell);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+
+    constructor(address aavePool_) {
+        owner = msg.sender;
+        aavePool = aavePool_;
+    }
+
+    function executeArbitrage(
+        address tokenBorrow,
+        uint256 amountToBorrow,
+        address routerBuy,
+        address routerSell,
+        address[] calldata pathBuy,
+        address[] calldata pathSell
+    ) external onlyOwner {
+        bytes memory route = abi.encode(
+            Leg(KIND_V2, routerBuy, abi.encode(pathBuy)),
+            Leg(KIND_V2, routerSell, abi.encode(pathSell))
+        );
+        _borrowFromAave(tokenBorrow, amountToBorrow, route);
+    }
+
+    function executeArbitrageRoute(address tokenBorrow, uint256 amountToBorrow, bytes calldata route) external onlyOwner {
+        _borrowFromAave(tokenBorrow, amountToBorrow, route);
+    }
+
+    function executeBalancerFlashLoan(address vault, address tokenBorrow, uint256 amountToBorrow, bytes calldata route) external onlyOwner {
+        address[] memory tokens = new address[](1);
+        tokens[0] = tokenBorrow;
+        uint256[] memory amounts = new uint256[](1);
+        amounts[0] = amountToBorrow;
+
+        activeLender = vault;
+        IBalancerVault(vault).flashLoan(address(this), tokens, amounts, route);
+        activeLender = address(0);
+    }
+
+    /**
+     * `pairFeeBps` is the pair's swap fee; repaying in the borrowed token costs
+     * amount * 10000 / (10000 - fee), rounded up.
+     */
+    function executeFlashSwap(address pair, address tokenBorrow, uint256 amountToBorrow, uint16 pairFeeBps, bytes calldata route) external onlyOwner {
+        bool borrowsToken0 = IUniswapV2Pair(pair).token0() == tokenBorrow;
+
+        activeLender = pair;
+        IUniswapV2Pair(pair).swap(
+            borrowsToken0 ? amountToBorrow : 0,
+            borrowsToken0 ? 0 : amountToBorrow,
+            address(this),
+            abi.encode(tokenBorrow, pairFeeBps, route)
+        );
+        activeLender = address(0);
+    }
+
+    // Aave V3 callback
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool) {
+        require(msg.sender == activeLender && msg.sender == aavePool && initiator == address(this), "unexpected lender");
+
+        _arbitrage(asset, amount, amount + premium, params);
+        // The pool pulls the repayment once this returns
+        _approve(asset, aavePool, amount + premium);
+        return true;
+    }
+
+    // Balancer vault callback
+    function receiveFlashLoan(
+        address[] calldata tokens,
+        uint256[] calldata amounts,
+        uint256[] calldata feeAmounts,
+        bytes calldata userData
+    ) external {
+        require(msg.sender == activeLender && tokens.length == 1, "unexpected lender");
+
+        uint256 owed = amounts[0] + feeAmounts[0];
+        _arbitrage(tokens[0], amounts[0], owed, userData);
+        _transfer(tokens[0], msg.sender, owed);
+    }
+
+    // Uniswap V2 pair callback
+    function uniswapV2Call(address sender, uint256 amount0, uint256 amount1, bytes calldata data) external {
+        require(msg.sender == activeLender && sender == address(this), "unexpected lender");
+
+        (address token, uint16 pairFeeBps, bytes memory route) = abi.decode(data, (address, uint16, bytes));
+        uint256 amount = amount0 > 0 ? amount0 : amount1;
+        uint256 owed = (amount * 10000 + (10000 - pairFeeBps) - 1) / (10000 - pairFeeBps);
+
+        _arbitrage(token, amount, owed, route);
+        _transfer(token, msg.sender, owed);
+    }
+
+    function withdraw(address token, uint256 amount) external onlyOwner {
+        _transfer(token, owner, amount);
+    }
+
+    function _borrowFromAave(address token, uint256 amount, bytes memory route) private {
+        activeLender = aavePool;
+        IAavePool(aavePool).flashLoanSimple(address(this), token, amount, route, 0);
+        activeLender = address(0);
+    }
+
+    /**
+     * Runs both legs with the `amount` just borrowed and checks that more than `owed` came
+     * back. Called with the loan already in this contract's balance.
+     */
+    function _arbitrage(address token, uint256 amount, uint256 owed, bytes memory route) private {
+        activeLender = address(0);
+
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this)) - amount;
+        (Leg memory buy, Leg memory sell) = abi.decode(route, (Leg, Leg));
+
+        uint256 bought = _swap(buy, amount);
+        _swap(sell, bought);
+
+        uint256 balanceAfter = IERC20(token).balanceOf(address(this));
+        require(balanceAfter > balanceBefore + owed, "unprofitable");
+
+        emit ArbitrageExecuted(token, amount, balanceAfter - balanceBefore - owed, buy.router, sell.router);
+    }
+
+    function _swap(Leg memory leg, uint256 amountIn) private returns (uint256) {
+        if (leg.kind == KIND_V2) {
+            address[] memory path = abi.decode(leg.path, (address[]));
+            _approve(path[0], leg.router, amountIn);
+            uint256[] memory amounts = IUniswapV2Router(leg.router).swapExactTokensForTokens(
+                amountIn, 0, path, address(this), block.timestamp
+            );
+            return amounts[amounts.length - 1];
+        }
+
+        require(leg.kind == KIND_V3, "unknown dex kind");
+        _approve(_firstToken(leg.path), leg.router, amountIn);
+        return IV3SwapRouter(leg.router).exactInput(
+            IV3SwapRouter.ExactInputParams(leg.path, address(this), block.timestamp, amountIn, 0)
+        );
+    }
+
+    function _firstToken(bytes memory packedPath) private pure returns (address token) {
+        require(packedPath.length >= 20, "bad path");
+        assembly {
+            token := shr(96, mload(add(packedPath, 32)))
+        }
+    }
+
+    // Tolerates tokens that return nothing, as USDT does
+    function _approve(address token, address spender, uint256 amount) private {
+        (bool ok, bytes memory data) = token.call(abi.encodeWithSelector(IERC20.approve.selector, spender, amount));
+        require(ok && (data.length == 0 || abi.decode(data, (bool))), "approve failed");
+    }
+
+    function _transfer(address token, address to, uint256 amount) private {
+        (bool ok, bytes memory data) = token.call(abi.encodeWithSelector(IERC20.transfer.selector, to, amount));
+        require(ok && (data.length == 0 || abi.decode(data, (bool))), "transfer failed");
+    }
+}
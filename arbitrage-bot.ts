@@ -1,140 +1,153 @@
 import { ethers } from 'ethers';
 import * as dotenv from 'dotenv';
+import express from 'express';
 import { logTrade, logError, logInfo, logSuccess, logWarning } from './utils/logger'; 
-import { TradeLogger, TradeRecord } from './utils/tradeLogger'; 
+import { TradeLogger, TradeRecord, TRADE_BOOK_FILES } from './utils/tradelogger'; 
+import { PoolStateCache } from './poolstate';
+import { OpportunityFinder, FinderParams } from './opportunityfinder';
+import { simulateTransaction } from './simulation';
+import { settleTrade, effectiveGasPrice } from './settlement';
+import { PricingService } from './pricing';
+import { createFlashLoanProviders } from './flashloan';
+import { RiskManager } from './riskmanager';
+import { TransactionManager, TxManagerOptions, DeadlineAction } from './txmanager';
+import { LatencyTracker } from './latency';
+import { RpcPool, WebSocketPool } from './providerpool';
+import { metrics, collectEventMetrics } from './metrics';
+import metricsRoutes from './routes/metrics-routes';
+import { NonceManager } from './mev/noncemanager';
+import { eventBus } from './events';
+import { EventStreamServer } from './api/eventstream';
+import { ChainConfig, TokenConfig, Opportunity, BotStatus } from './types';
+import { loadChainRegistry } from './chains';
+import { MultiChainSupervisor, SupervisedChain } from './supervisor';
 import * as path from 'path';
 
 dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
 
-const YOUR_CONTRACT_ADDRESS = '0x83EF5c401fAa5B9674BAfAcFb089b30bAc67C9A0';
-const MIN_PROFIT_PERCENT = 0.15; 
-const MAX_GAS_COST_GWEI = 50n;
+const GAS_LIMIT_BUFFER_PERCENT = 20;
+// SCAN_LATENCY_BUDGET_MS overrides; a trade later than this is priced on a stale block
+const DEFAULT_LATENCY_BUDGET_MS = 1500;
 
-interface ChainConfig {
-    name: string;
-    rpcHttp: string;
-    rpcWss: string;
-    chainId: number;
-    gasToken: string;
-    dexes: DEXConfig[];
-    tokens: TokenConfig[];
-    maxPriorityFee: bigint;
-    minBalance: string;
+export interface BotOptions {
+    // Paper trading: simulate and record fills in the paper book, never send a transaction
+    dryRun?: boolean;
+    finderParams?: Partial<FinderParams>;
 }
 
-interface DEXConfig {
-    name: string;
-    router: string;
-    factory: string;
+// TX_DEADLINE_MS and TX_DEADLINE_ACTION (replace|cancel) override the manager's defaults
+function txManagerOptionsFromEnv(): Partial<TxManagerOptions> {
+    const options: Partial<TxManagerOptions> = {};
+    if (process.env.TX_DEADLINE_MS) options.deadlineMs = Number(process.env.TX_DEADLINE_MS);
+    if (process.env.TX_DEADLINE_ACTION) options.deadlineAction = process.env.TX_DEADLINE_ACTION as DeadlineAction;
+    return options;
 }
 
-interface TokenConfig {
-    symbol: string;
-    address: string;
-    decimals: number;
-}
-
-interface Opportunity {
-    id: string;
-    tokenA: TokenConfig;
-    tokenB: TokenConfig;
-    buyDex: string; 
-    sellDex: string; 
-    buyDexName: string;
-    sellDexName: string;
-    profitPercent: number;
-    estimatedProfit: ethers.BigNumber;
-    borrowAmount: ethers.BigNumber;
-    pairBorrow: string;
-}
-
-const POLYGON_CONFIG: ChainConfig = {
-    name: 'Polygon',
-    rpcHttp: process.env.POLYGON_RPC || 'https://polygon-rpc.com',
-    rpcWss: process.env.POLYGON_WSS || 'wss://polygon-bor.publicnode.com',
-    chainId: 137,
-    gasToken: 'MATIC',
-    maxPriorityFee: ethers.utils.parseUnits(MAX_GAS_COST_GWEI.toString(), 'gwei').toBigInt(),
-    minBalance: '0.5',
-    
-    dexes: [
-        { name: 'QuickSwap', router: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32' },
-        { name: 'SushiSwap', router: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', factory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4' },
-    ],
-    tokens: [
-        { symbol: 'WMATIC', address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', decimals: 18 },
-        { symbol: 'USDC', address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', decimals: 6 },
-        { symbol: 'WETH', address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', decimals: 18 },
-    ]
-};
-
-const BSC_CONFIG: ChainConfig = {
-    name: 'BSC',
-    rpcHttp: process.env.BSC_RPC || 'https://bsc-dataseed1.binance.org',
-    rpcWss: process.env.BSC_WSS || 'wss://bsc-ws-node.nariox.org',
-    chainId: 56,
-    gasToken: 'BNB',
-    maxPriorityFee: ethers.utils.parseUnits('3', 'gwei').toBigInt(), 
-    minBalance: '0.002',
-    
-    dexes: [
-        { name: 'PancakeSwap', router: '0x10ED43C718714eb63d5aA57B78B54704E256024E', factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73' },
-        { name: 'BiSwap', router: '0x3a6d8cA21D1CF76F653A67577FA0D27453350dD8', factory: '0x858E3312ed3A876947EA49d572A7C42DE08af7EE' },
-    ],
-    tokens: [
-        { symbol: 'WBNB', address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', decimals: 18 },
-        { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18 },
-        { symbol: 'BUSD', address: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', decimals: 18 }
-    ]
-};
-
-class FlashLoanArbitrageBot {
-    private provider: ethers.providers.JsonRpcProvider;
-    private wsProvider: ethers.providers.WebSocketProvider;
+export class FlashLoanArbitrageBot {
+    private provider: RpcPool;
+    private wsProvider: WebSocketPool;
     private wallet: ethers.Wallet;
     private config: ChainConfig;
     private contract: ethers.Contract;
     private tradeLogger: TradeLogger;
+    private poolCache: PoolStateCache;
+    private pricing: PricingService;
+    private finder: OpportunityFinder;
+    private dryRun: boolean;
+    private risk: RiskManager;
+    private txManager: TransactionManager;
+    private nonces: NonceManager;
+    private pauseLogged: boolean = false;
     
     private isRunning: boolean = false;
+    private startedAt?: number;
+    private lastScanAt?: number;
+    private scanCount: number = 0;
+    private scanErrors: number = 0;
+    private lastError?: string;
+    
+    // Scans are triggered by new heads and pool changes, never by a timer
+    private scanning: boolean = false;
+    private scanRequestedAt?: number; // Earliest trigger the next scan will serve
+    private changedPools: Set<string> = new Set();
+    private fullScanPending: boolean = true;
+    private lastBlock?: number;
+    private gasPriceBlock?: number;
+    private readonly latencyBudgetMs: number;
+    private overBudget: number = 0;
+    private submissionLatency = new LatencyTracker();
+    private scanLatency = new LatencyTracker();
 
     private readonly CONTRACT_ABI = [
         'function executeArbitrage(address tokenBorrow, uint256 amountToBorrow, address routerBuy, address routerSell, address[] calldata pathBuy, address[] calldata pathSell) external',
         'event ArbitrageExecuted(address indexed tokenBorrowed, uint256 amount, uint256 profit, address dexBuy, address dexSell)'
     ];
     
-    private readonly ROUTER_ABI = [
-        'function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)'
-    ];
-    
-    private readonly FACTORY_ABI = [
-        'function getPair(address tokenA, address tokenB) external view returns (address pair)'
-    ];
-    
-    constructor(config: ChainConfig, privateKey: string) {
+    constructor(config: ChainConfig, privateKey: string, options: BotOptions = {}) {
         this.config = config;
-        this.provider = new ethers.providers.JsonRpcProvider(config.rpcHttp);
-        this.wsProvider = new ethers.providers.WebSocketProvider(config.rpcWss);
+        this.dryRun = options.dryRun ?? false;
+        this.provider = new RpcPool(config.rpcHttp, config.chainId, config.name);
+        this.wsProvider = new WebSocketPool(config.rpcWss, config.chainId, config.name, () => this.provider.getHead());
         this.wallet = new ethers.Wallet(privateKey, this.provider);
-        this.contract = new ethers.Contract(YOUR_CONTRACT_ADDRESS, this.CONTRACT_ABI, this.wallet);
-        this.tradeLogger = new TradeLogger();
+        this.contract = new ethers.Contract(config.contractAddress, this.CONTRACT_ABI, this.wallet);
+        this.tradeLogger = new TradeLogger(this.dryRun ? TRADE_BOOK_FILES.paper : TRADE_BOOK_FILES.live);
+        this.poolCache = new PoolStateCache(this.provider, this.wsProvider);
+        this.pricing = new PricingService(this.poolCache, config, this.provider);
+        this.finder = new OpportunityFinder(
+            config,
+            this.poolCache,
+            this.pricing,
+            createFlashLoanProviders(config, this.poolCache, this.provider),
+            options.finderParams
+        );
+        // Paper bots keep their own breaker so a paper loss never pauses live trading
+        this.risk = new RiskManager(this.dryRun ? `${config.name}-paper` : config.name, config.risk);
+        this.nonces = new NonceManager(this.provider, this.wallet.address);
+        this.txManager = new TransactionManager(this.wallet, config.name, txManagerOptionsFromEnv());
+        this.latencyBudgetMs = Number(process.env.SCAN_LATENCY_BUDGET_MS || DEFAULT_LATENCY_BUDGET_MS);
         
         logInfo('Bot initialized', {
             chain: config.name,
+            mode: this.dryRun ? 'paper' : 'live',
             wallet: this.wallet.address,
-            contract: YOUR_CONTRACT_ADDRESS
+            contract: config.contractAddress
         });
     }
     
     async start(): Promise<void> {
         await this.verifySetup();
+        if (!this.dryRun) await this.nonces.initialize();
         
         this.isRunning = true;
+        this.startedAt = Date.now();
         logSuccess('Bot started successfully');
         
-        console.log('\n✅ Bot LIVE! Scanning for opportunities...\n');
+        if (this.dryRun) {
+            console.log(`\n📝 [${this.config.name}] DRY_RUN: paper trading, no transactions will be sent\n`);
+        } else {
+            console.log('\n✅ Bot LIVE! Scanning for opportunities...\n');
+        }
+        
+        this.poolCache.onChange(pool => {
+            this.changedPools.add(pool.address.toLowerCase());
+            this.requestScan();
+        });
+        // newHeads; if no socket can be kept up the scans stop and the supervisor restarts the bot
+        this.wsProvider.on('block', (blockNumber: number) => {
+            this.lastBlock = blockNumber;
+            this.requestScan();
+        });
+        // Sync logs sent while the socket was down are lost; re-read the pools and rescan
+        this.wsProvider.onReconnect(() => {
+            this.poolCache.resync().finally(() => {
+                this.fullScanPending = true;
+                this.requestScan();
+            });
+        });
+        this.requestScan();
         
-        this.scanContinuously();
+        // A paper bot shares the contract with the live one; leave its events to the live bot
+        if (this.dryRun) return;
         
         this.contract.on('ArbitrageExecuted', (tokenBorrowed, amount, profit, dexBuy, dexSell, event) => {
             logSuccess('PROFIT MADE!', {
@@ -153,7 +166,9 @@ class FlashLoanArbitrageBot {
         
         logInfo(`Wallet Balance: ${balanceFormatted} ${this.config.gasToken}`);
         
-        if (balance.lt(minBalance)) {
+        if (balance.lt(minBalance) && this.dryRun) {
+            logWarning('Balance below the live minimum; continuing because DRY_RUN never spends gas', { required: this.config.minBalance, found: balanceFormatted });
+        } else if (balance.lt(minBalance)) {
             logError('Insufficient balance', { required: this.config.minBalance, found: balanceFormatted });
             throw new Error('Insufficient balance for gas reserve. Please fund the wallet.');
         }
@@ -162,188 +177,344 @@ class FlashLoanArbitrageBot {
         logSuccess(`RPC connected (Block: ${blockNumber})`);
     }
     
-    private async scanContinuously(): Promise<void> {
-        while (this.isRunning) {
+    /**
+     * Runs a scan now, or right after the one in progress. Triggers that arrive during a scan
+     * are coalesced into one follow-up that covers every pool changed in the meantime.
+     */
+    private requestScan(): void {
+        this.scanRequestedAt ??= Date.now();
+        if (this.scanning || !this.isRunning) return;
+        
+        this.scanning = true;
+        this.runScans().finally(() => { this.scanning = false; });
+    }
+    
+    private async runScans(): Promise<void> {
+        while (this.isRunning && this.scanRequestedAt !== undefined) {
+            const detectedAt = this.scanRequestedAt;
+            const changed = this.fullScanPending ? undefined : this.changedPools;
+            this.scanRequestedAt = undefined;
+            this.changedPools = new Set();
+            this.fullScanPending = false;
+            
             try {
-                await this.scanAllPairs();
-                
-                await new Promise(resolve => setTimeout(resolve, 5000));
+                await this.scanAllPairs(changed, detectedAt);
+                this.scanCount++;
+                this.lastScanAt = Date.now();
+                metrics.scans.inc(this.metricLabels());
             } catch (error: any) {
+                this.scanErrors++;
+                metrics.scanErrors.inc(this.metricLabels());
+                this.lastError = error.message;
+                // The changes this scan took were never evaluated
+                this.fullScanPending = true;
                 logError('Scan error', { message: error.message });
-                await new Promise(resolve => setTimeout(resolve, 10000));
             }
         }
     }
     
-    private async scanAllPairs(): Promise<void> {
-        const opportunities: Opportunity[] = [];
-        
-        const tokens = this.config.tokens;
-        
-        for (let i = 0; i < tokens.length; i++) {
-            for (let j = i + 1; j < tokens.length; j++) {
-                opportunities.push(...await this.findArbitrage(tokens[i], tokens[j]));
+    private async scanAllPairs(changedPools: Set<string> | undefined, detectedAt: number): Promise<void> {
+        // Once per block, not once per Sync
+        if (this.lastBlock === undefined || this.gasPriceBlock !== this.lastBlock) {
+            await this.pricing.refreshGasPrice();
+            this.gasPriceBlock = this.lastBlock;
+            if (!this.dryRun) {
+                await this.nonces.resyncIfNeeded();
+                await this.nonces.repairGaps(nonce => this.fillNonceGap(nonce));
             }
         }
+        if (changedPools && changedPools.size === 0) return;
+        
+        const scanStartedAt = Date.now();
+        const opportunities = await this.finder.findOpportunities(changedPools);
+        this.scanLatency.record(Date.now() - scanStartedAt);
+        metrics.scanDuration.observe(this.metricLabels(), (Date.now() - scanStartedAt) / 1000);
         
         if (opportunities.length > 0) {
-            opportunities.sort((a, b) => b.estimatedProfit.sub(a.estimatedProfit).isNegative() ? -1 : 1);
+            const quote = this.pricing.getQuoteToken();
+            for (const opp of opportunities) {
+                eventBus.publish({
+                    type: 'opportunity',
+                    chain: this.config.name,
+                    id: opp.id,
+                    buyDex: opp.buyDexName,
+                    sellDex: opp.sellDexName,
+                    borrowAmount: ethers.utils.formatUnits(opp.borrowAmount, opp.tokenA.decimals),
+                    profitPercent: opp.profitPercent,
+                    netProfitQuote: ethers.utils.formatUnits(opp.netProfitQuote, quote.decimals)
+                });
+            }
             
-            const topOpp = opportunities[0];
-            if (topOpp.profitPercent >= MIN_PROFIT_PERCENT) {
-                logWarning(`High-potential opportunity found (${topOpp.profitPercent.toFixed(3)}%)`);
-                await this.executeOpportunity(topOpp);
+            if (this.risk.isPaused()) {
+                if (!this.pauseLogged) {
+                    logWarning('Trading paused by the risk manager; resume with POST /risk/:scope/resume', this.risk.getState());
+                    this.pauseLogged = true;
+                }
+                return;
             }
+            this.pauseLogged = false;
+            
+            const topOpp = opportunities[0];
+            logWarning(`High-potential opportunity found (${topOpp.profitPercent.toFixed(3)}% net)`, {
+                borrowAmount: ethers.utils.formatUnits(topOpp.borrowAmount, topOpp.tokenA.decimals),
+                sizeLimitedBy: topOpp.sizeLimitedBy,
+                netProfit: `${ethers.utils.formatUnits(topOpp.netProfitQuote, quote.decimals)} ${quote.symbol}`
+            });
+            await this.executeOpportunity(topOpp, detectedAt);
         }
     }
     
-    private async findArbitrage(tokenA: TokenConfig, tokenB: TokenConfig): Promise<Opportunity[]> {
-        const baseBorrowAmount = ethers.utils.parseUnits('100', tokenA.decimals);
-        
-        const opportunities: Opportunity[] = [];
-        
-        const prices: Array<{
-            dex: DEXConfig;
-            priceOut: ethers.BigNumber;
-        }> = [];
-
-        for (const dex of this.config.dexes) {
-            try {
-                const router = new ethers.Contract(dex.router, this.ROUTER_ABI, this.provider);
-                const factory = new ethers.Contract(dex.factory, this.FACTORY_ABI, this.provider);
-                
-                const pairAddress = await factory.getPair(tokenA.address, tokenB.address);
-                if (pairAddress === ethers.constants.AddressZero) continue;
-                
-                const amounts = await router.getAmountsOut(baseBorrowAmount, [tokenA.address, tokenB.address]);
-                prices.push({ dex, priceOut: amounts[1] });
-            } catch {
-                continue;
-            }
-        }
-
-        for (let i = 0; i < prices.length; i++) {
-            for (let j = i + 1; j < prices.length; j++) {
-                const p1 = prices[i];
-                const p2 = prices[j];
-                
-                const buyOnA = p1.priceOut.lt(p2.priceOut);
-                const buyDex = buyOnA ? p1 : p2;
-                const sellDex = buyOnA ? p2 : p1;
-                
-                try {
-                    const buyRouter = new ethers.Contract(buyDex.dex.router, this.ROUTER_ABI, this.provider);
-                    const sellRouter = new ethers.Contract(sellDex.dex.router, this.ROUTER_ABI, this.provider);
-
-                    const amountsBuy = await buyRouter.getAmountsOut(baseBorrowAmount, [tokenA.address, tokenB.address]);
-                    const amountBOut = amountsBuy[1];
-
-                    const amountsSell = await sellRouter.getAmountsOut(amountBOut, [tokenB.address, tokenA.address]);
-                    const amountAOut = amountsSell[1];
-                    
-                    const flashLoanFeeBasisPoints = 9n;
-                    const multiplier = 10000n + flashLoanFeeBasisPoints;
-                    const repayAmount = baseBorrowAmount.mul(multiplier).div(10000); 
-                    
-                    const profit = amountAOut.sub(repayAmount);
-                    
-                    if (profit.gt(ethers.constants.Zero)) {
-                        const profitInTokenA = Number(ethers.utils.formatUnits(profit, tokenA.decimals));
-                        const profitPercent = (profitInTokenA / Number(ethers.utils.formatUnits(baseBorrowAmount, tokenA.decimals))) * 100;
-
-                        if (profitPercent >= MIN_PROFIT_PERCENT) {
-                            const factory = new ethers.Contract(buyDex.dex.factory, this.FACTORY_ABI, this.provider);
-                            const pairAddress = await factory.getPair(tokenA.address, tokenB.address);
-
-                            opportunities.push({
-                                id: `${tokenA.symbol}/${tokenB.symbol}`,
-                                tokenA, tokenB,
-                                buyDex: buyDex.dex.router,
-                                sellDex: sellDex.dex.router,
-                                buyDexName: buyDex.dex.name,
-                                sellDexName: sellDex.dex.name,
-                                profitPercent,
-                                estimatedProfit: profit,
-                                borrowAmount: baseBorrowAmount,
-                                pairBorrow: pairAddress
-                            });
-                        }
-                    }
-                } catch (e: any) {
-                    continue;
-                }
-            }
-        }
-        
-        return opportunities;
+    private findToken(address: string): TokenConfig | undefined {
+        return this.config.tokens.find(t => t.address.toLowerCase() === address.toLowerCase());
     }
     
-    private async executeOpportunity(opp: Opportunity): Promise<void> {
-        const tradeId = `TRADE-${Date.now()}`;
+    private async executeOpportunity(opp: Opportunity, detectedAt: number): Promise<void> {
+        const tradeId = `${this.dryRun ? 'PAPER' : 'TRADE'}-${this.config.name}-${Date.now()}`;
         
         const tradeRecord: TradeRecord = {
             id: tradeId,
             timestamp: Date.now(),
             blockNumber: 0,
             status: 'pending',
+            chain: this.config.name,
+            pair: opp.id,
             tokenA: { symbol: opp.tokenA.symbol, address: opp.tokenA.address, amount: ethers.utils.formatUnits(opp.borrowAmount, opp.tokenA.decimals) },
             tokenB: { symbol: opp.tokenB.symbol, address: opp.tokenB.address, amount: '0' },
             buyDex: opp.buyDexName,
             sellDex: opp.sellDexName,
             borrowAmount: ethers.utils.formatUnits(opp.borrowAmount, opp.tokenA.decimals),
+            lender: opp.flashLoan.provider.name,
             expectedProfit: ethers.utils.formatUnits(opp.estimatedProfit, opp.tokenA.decimals),
+            quoteSymbol: this.pricing.getQuoteToken().symbol,
+            gasToken: this.config.gasToken,
         };
         this.tradeLogger.logTrade(tradeRecord);
         
         try {
-            const pathBuy = [opp.tokenA.address, opp.tokenB.address];
-            const pathSell = [opp.tokenB.address, opp.tokenA.address];
-
+            const notionalQuote = await this.formatQuote(opp.borrowAmount.toBigInt(), opp.tokenA);
+            const decision = this.risk.check({
+                // A trade that cannot be priced never passes the notional cap
+                notionalQuote: notionalQuote === undefined ? Infinity : Number(notionalQuote),
+                tokenLimitQuote: opp.tokenA.maxNotionalQuote,
+                balanceWei: (await this.provider.getBalance(this.wallet.address)).toBigInt()
+            });
+            if (!decision.allowed) {
+                logWarning('Trade blocked by risk manager', { tradeId, reason: decision.reason });
+                this.tradeLogger.logTrade({
+                    ...tradeRecord,
+                    status: 'skipped',
+                    error: `Risk: ${decision.reason}`,
+                });
+                return;
+            }
+            
             const feeData = await this.provider.getFeeData();
             const maxFee = feeData.gasPrice!.add(this.config.maxPriorityFee); 
             
-            const tx = await this.contract.executeArbitrage(
-                opp.tokenA.address,
-                opp.borrowAmount,
-                opp.buyDex,
-                opp.sellDex,
-                pathBuy,
-                pathSell,
-                {
-                    gasLimit: 500000, 
+            // Every lender is borrowed from through the contract, which it calls back
+            const loanTx = opp.flashLoan.provider.encode(opp.flashLoan, {
+                token: opp.tokenA.address,
+                amount: opp.borrowAmount.toBigInt(),
+                hops: opp.hops,
+            });
+            
+            // Dry-run against the pending block so reverts cost nothing
+            const simulation = await simulateTransaction(this.wallet, loanTx);
+            eventBus.publish({
+                type: 'simulation',
+                chain: this.config.name,
+                ref: tradeId,
+                success: simulation.success,
+                gasEstimate: simulation.gasEstimate?.toString(),
+                revertReason: simulation.revertReason
+            });
+            if (!simulation.success) {
+                logWarning('Simulation reverted, skipping trade', { tradeId, reason: simulation.revertReason });
+                this.tradeLogger.logTrade({
+                    ...tradeRecord,
+                    status: 'skipped',
+                    error: `Simulation reverted: ${simulation.revertReason}`,
+                });
+                return;
+            }
+            
+            const gasEstimate = simulation.gasEstimate!;
+            const gasCostWei = gasEstimate.mul(maxFee);
+            const gasCostInTokenA = await this.pricing.gasCostInToken(gasEstimate.toBigInt(), opp.tokenA, maxFee.toBigInt());
+            const expectedNetProfit = gasCostInTokenA === null ? null : opp.estimatedProfit.toBigInt() - gasCostInTokenA;
+            
+            if (expectedNetProfit === null || expectedNetProfit <= 0n) {
+                const reason = expectedNetProfit === null
+                    ? `Cannot price ${this.config.gasToken} gas in ${opp.tokenA.symbol}`
+                    : `Unprofitable after gas (net ${ethers.utils.formatUnits(expectedNetProfit, opp.tokenA.decimals)} ${opp.tokenA.symbol})`;
+                logWarning('Simulation passed but trade skipped', { tradeId, reason, gasEstimate: gasEstimate.toString() });
+                this.tradeLogger.logTrade({
+                    ...tradeRecord,
+                    status: 'skipped',
+                    error: reason,
+                    estimatedGasCost: ethers.utils.formatEther(gasCostWei),
+                });
+                return;
+            }
+            
+            const elapsedMs = Date.now() - detectedAt;
+            if (elapsedMs > this.latencyBudgetMs) {
+                this.overBudget++;
+                logWarning('Latency budget exceeded, skipping trade', { tradeId, elapsedMs, budgetMs: this.latencyBudgetMs });
+                this.tradeLogger.logTrade({
+                    ...tradeRecord,
+                    status: 'skipped',
+                    error: `Latency budget exceeded (${elapsedMs}ms > ${this.latencyBudgetMs}ms)`,
+                });
+                return;
+            }
+            
+            if (this.dryRun) {
+                this.recordSubmission(opp, elapsedMs);
+                await this.recordPaperFill(tradeRecord, opp, expectedNetProfit, gasCostWei);
+                return;
+            }
+            
+            const [nonce] = this.nonces.reserve(1);
+            let tx: ethers.providers.TransactionResponse;
+            try {
+                tx = await this.wallet.sendTransaction({
+                    ...loanTx,
+                    gasLimit: gasEstimate.mul(100 + GAS_LIMIT_BUFFER_PERCENT).div(100), 
                     maxPriorityFeePerGas: this.config.maxPriorityFee, 
                     maxFeePerGas: maxFee,
-                }
-            );
+                    nonce,
+                });
+            } catch (error) {
+                this.nonces.release([nonce]);
+                throw error;
+            }
+            this.nonces.commit([nonce]);
+            this.recordSubmission(opp, Date.now() - detectedAt);
             
             logInfo('Transaction sent', { tradeId, txHash: tx.hash });
+            eventBus.publish({ type: 'tx_sent', chain: this.config.name, tradeId, txHash: tx.hash, nonce: tx.nonce });
             
-            const receipt = await tx.wait();
-            
-            if (receipt.status === 1) {
-                let actualProfit = opp.estimatedProfit;
-                
-                logSuccess('Trade successful', { tradeId, txHash: receipt.transactionHash, block: receipt.blockNumber });
+            // Bounded by the manager's deadline, speed-ups and cancel, unlike tx.wait()
+            const outcome = await this.txManager.track(tx, tradeId);
+            if (outcome.status !== 'mined' && outcome.status !== 'cancelled') {
+                const reason = {
+                    replaced: 'Nonce used by another transaction',
+                    dropped: 'Dropped from the mempool',
+                    timeout: 'Still pending after cancel'
+                }[outcome.status];
+                // A dropped transaction leaves its nonce unused
+                if (outcome.status === 'dropped') this.nonces.release([nonce]);
                 
+                // None of our versions was mined, so no gas was spent
+                logError('Trade not mined', { tradeId, txHash: tx.hash, outcome: outcome.status });
                 this.tradeLogger.logTrade({
                     ...tradeRecord,
-                    status: 'success',
-                    actualProfit: ethers.utils.formatUnits(actualProfit, opp.tokenA.decimals),
-                    netProfit: ethers.utils.formatUnits(actualProfit.sub(receipt.gasUsed!.mul(maxFee)), opp.tokenA.decimals),
-                    gasCost: ethers.utils.formatEther(receipt.gasUsed!.mul(maxFee)),
-                    txHash: receipt.transactionHash,
-                    blockNumber: receipt.blockNumber,
+                    status: 'failed',
+                    error: reason,
+                    txHash: tx.hash,
+                    txOutcome: outcome.status,
+                    replacements: outcome.replacements,
                 });
+                return;
+            }
+            
+            const receipt = outcome.receipt;
+            eventBus.publish({
+                type: 'tx_receipt',
+                chain: this.config.name,
+                tradeId,
+                txHash: receipt.transactionHash,
+                status: receipt.status === 1 ? 'success' : 'failed',
+                blockNumber: receipt.blockNumber,
+                gasUsed: receipt.gasUsed.toString()
+            });
+            
+            // The trade is on chain from here: a failure reading it back must not lose the gas it
+            // paid. Until the price paid is known, charge the fee cap the trade was sent with
+            let paidGasWei: ethers.BigNumber = receipt.gasUsed.mul(receipt.effectiveGasPrice ?? maxFee);
+            try {
+                // A speed-up or cancel pays a different fee than the original, so use what was paid
+                const gasPrice = await effectiveGasPrice(this.provider, receipt);
+                paidGasWei = receipt.gasUsed.mul(gasPrice);
+            
+                if (outcome.status === 'mined' && receipt.status === 1) {
+                    const settlement = await settleTrade(this.contract, receipt, opp.tokenA.address, [this.wallet.address, this.contract.address]);
+                    const actualProfit = settlement.profit ?? settlement.balanceDelta;
+                    if (!settlement.profit) {
+                        logWarning('No ArbitrageExecuted event for the trade', { tradeId, txHash: receipt.transactionHash });
+                    } else if (settlement.balanceDelta && !settlement.reconciled) {
+                        logWarning('Event profit does not match the balance change', {
+                            tradeId,
+                            profit: ethers.utils.formatUnits(settlement.profit, opp.tokenA.decimals),
+                            balanceDelta: ethers.utils.formatUnits(settlement.balanceDelta, opp.tokenA.decimals)
+                        });
+                    }
+                
+                    const gasInTokenA = await this.pricing.nativeToToken(paidGasWei.toBigInt(), opp.tokenA);
+                    const netProfit = gasInTokenA === null || actualProfit === null ? null : actualProfit.toBigInt() - gasInTokenA;
+                    const slippage = actualProfit === null ? null : opp.estimatedProfit.sub(actualProfit);
+                
+                    const netProfitQuote = netProfit === null ? undefined : await this.formatQuote(netProfit, opp.tokenA);
+                    const profitQuote = actualProfit === null ? undefined : await this.formatQuote(actualProfit.toBigInt(), opp.tokenA);
+                
+                    logSuccess('Trade successful', { tradeId, txHash: receipt.transactionHash, block: receipt.blockNumber });
+                    this.risk.recordResult({ gasCostWei: paidGasWei.toBigInt(), reverted: false, netProfitQuote: Number(netProfitQuote ?? 0) });
+                
+                    this.tradeLogger.logTrade({
+                        ...tradeRecord,
+                        status: 'success',
+                        actualProfit: actualProfit === null ? undefined : ethers.utils.formatUnits(actualProfit, opp.tokenA.decimals),
+                        netProfit: netProfit === null ? undefined : ethers.utils.formatUnits(netProfit, opp.tokenA.decimals),
+                        profitQuote,
+                        netProfitQuote,
+                        gasCost: ethers.utils.formatEther(paidGasWei),
+                        effectiveGasPrice: ethers.utils.formatUnits(gasPrice, 'gwei'),
+                        balanceDelta: settlement.balanceDelta === null ? undefined : ethers.utils.formatUnits(settlement.balanceDelta, opp.tokenA.decimals),
+                        reconciled: settlement.reconciled,
+                        slippage: slippage === null ? undefined : ethers.utils.formatUnits(slippage, opp.tokenA.decimals),
+                        slippageBps: slippage === null || opp.estimatedProfit.isZero() ? undefined : slippage.mul(10_000).div(opp.estimatedProfit).toNumber(),
+                        txHash: receipt.transactionHash,
+                        txOutcome: outcome.status,
+                        replacements: outcome.replacements,
+                        blockNumber: receipt.blockNumber,
+                    });
 
-            } else {
-                logError('Trade failed', { tradeId, txHash: receipt.transactionHash, block: receipt.blockNumber });
+                } else {
+                    const wrapped = this.findToken(this.config.wrappedNative)!;
+                    const lossQuote = await this.formatQuote(-paidGasWei.toBigInt(), wrapped);
+                    const reverted = outcome.status === 'mined';
+                
+                    logError(reverted ? 'Trade failed' : 'Trade cancelled', { tradeId, txHash: receipt.transactionHash, block: receipt.blockNumber });
+                    this.risk.recordResult({ gasCostWei: paidGasWei.toBigInt(), reverted, netProfitQuote: Number(lossQuote ?? 0) });
+                    this.tradeLogger.logTrade({
+                        ...tradeRecord,
+                        status: 'failed',
+                        error: reverted ? 'Transaction reverted on chain' : 'Cancelled after missing its deadline',
+                        txHash: receipt.transactionHash,
+                        txOutcome: outcome.status,
+                        replacements: outcome.replacements,
+                        blockNumber: receipt.blockNumber,
+                        gasCost: ethers.utils.formatEther(paidGasWei),
+                        effectiveGasPrice: ethers.utils.formatUnits(gasPrice, 'gwei'),
+                        // A revert or cancel still burns gas, so it counts as a realised loss
+                        netProfitQuote: lossQuote,
+                    });
+                }
+            } catch (error: any) {
+                // Profit is unknown, but the gas is spent and the outcome is on chain
+                const succeeded = outcome.status === 'mined' && receipt.status === 1;
+                logError('Could not settle mined trade', { tradeId, txHash: receipt.transactionHash, error: error.message });
+                this.risk.recordResult({ gasCostWei: paidGasWei.toBigInt(), reverted: outcome.status === 'mined' && !succeeded, netProfitQuote: 0 });
                 this.tradeLogger.logTrade({
                     ...tradeRecord,
-                    status: 'failed',
-                    error: 'Transaction reverted on chain',
+                    status: succeeded ? 'success' : 'failed',
+                    error: `Settlement failed: ${error.message}`,
                     txHash: receipt.transactionHash,
+                    txOutcome: outcome.status,
+                    replacements: outcome.replacements,
                     blockNumber: receipt.blockNumber,
-                    gasCost: ethers.utils.formatEther(receipt.gasUsed!.mul(maxFee)),
+                    gasCost: ethers.utils.formatEther(paidGasWei),
                 });
             }
         } catch (error: any) {
@@ -356,37 +527,192 @@ class FlashLoanArbitrageBot {
         }
     }
     
+    private recordSubmission(opp: Opportunity, elapsedMs: number): void {
+        this.submissionLatency.record(elapsedMs);
+        metrics.detectionToSubmission.observe(this.metricLabels(), elapsedMs / 1000);
+        metrics.opportunitiesExecuted.inc({ ...this.metricLabels(), pair: opp.id, buy_dex: opp.buyDexName, sell_dex: opp.sellDexName });
+    }
+    
+    private metricLabels(): { chain: string; mode: string } {
+        return { chain: this.config.name, mode: this.dryRun ? 'paper' : 'live' };
+    }
+    
+    private async fillNonceGap(nonce: number): Promise<void> {
+        const feeData = await this.provider.getFeeData();
+        await this.wallet.sendTransaction({
+            to: this.wallet.address,
+            value: 0,
+            gasLimit: 21_000,
+            maxFeePerGas: feeData.gasPrice!.add(this.config.maxPriorityFee),
+            maxPriorityFeePerGas: this.config.maxPriorityFee,
+            nonce,
+        });
+    }
+    
+    /**
+     * Books a fill at the simulated gas and the sized profit, as if the transaction had landed
+     * in the next block with the reserves the scan saw.
+     */
+    private async recordPaperFill(tradeRecord: TradeRecord, opp: Opportunity, netProfit: bigint, gasCostWei: ethers.BigNumber): Promise<void> {
+        const blockNumber = await this.provider.getBlockNumber();
+        
+        const netProfitQuote = await this.formatQuote(netProfit, opp.tokenA);
+        
+        logSuccess('Paper fill', { tradeId: tradeRecord.id, pair: opp.id, netProfit: `${ethers.utils.formatUnits(netProfit, opp.tokenA.decimals)} ${opp.tokenA.symbol}` });
+        this.risk.recordResult({ gasCostWei: gasCostWei.toBigInt(), reverted: false, netProfitQuote: Number(netProfitQuote ?? 0) });
+        this.tradeLogger.logTrade({
+            ...tradeRecord,
+            status: 'success',
+            actualProfit: ethers.utils.formatUnits(opp.estimatedProfit, opp.tokenA.decimals),
+            netProfit: ethers.utils.formatUnits(netProfit, opp.tokenA.decimals),
+            profitQuote: await this.formatQuote(opp.estimatedProfit.toBigInt(), opp.tokenA),
+            netProfitQuote,
+            gasCost: ethers.utils.formatEther(gasCostWei),
+            blockNumber: blockNumber + 1,
+        });
+    }
+    
+    private async formatQuote(amount: bigint, token: TokenConfig): Promise<string | undefined> {
+        const converted = await this.pricing.toQuote(amount, token);
+        if (converted === null) return undefined;
+        return ethers.utils.formatUnits(converted, this.pricing.getQuoteToken().decimals);
+    }
+    
+    getStatus(): BotStatus {
+        return {
+            chain: this.config.name,
+            mode: this.dryRun ? 'paper' : 'live',
+            running: this.isRunning,
+            paused: this.risk.isPaused(),
+            wallet: this.wallet.address,
+            startedAt: this.startedAt,
+            lastScanAt: this.lastScanAt,
+            scanCount: this.scanCount,
+            scanErrors: this.scanErrors,
+            lastError: this.lastError,
+            lastBlock: this.lastBlock,
+            endpoints: [...this.provider.getHealth(), ...this.wsProvider.getHealth()],
+            latency: {
+                budgetMs: this.latencyBudgetMs,
+                overBudget: this.overBudget,
+                detectionToSubmission: this.submissionLatency.getStats(),
+                scan: this.scanLatency.getStats()
+            }
+        };
+    }
+    
     stop(): void {
         this.isRunning = false;
+        this.poolCache.stop();
+        this.contract.removeAllListeners();
         this.wsProvider.removeAllListeners();
-        logInfo('Bot stopped');
+        // Close the socket so a supervisor restart does not leak connections
+        this.wsProvider.destroy().catch(() => undefined);
+        this.provider.stop();
+        this.tradeLogger.printStatistics();
+        logInfo('Bot stopped', { chain: this.config.name });
     }
 }
 
+const STATUS_LOG_INTERVAL_MS = 60_000;
+
+interface BotChain extends SupervisedChain {
+    options: BotOptions;
+}
+
+/**
+ * Finder overrides for paper shadows, e.g. PAPER_MIN_PROFIT_PERCENT=0.1 to try a lower bar
+ * next to the live bot before committing capital to it.
+ */
+function paperFinderParams(): Partial<FinderParams> {
+    const params: Partial<FinderParams> = {};
+    if (process.env.PAPER_MIN_PROFIT_PERCENT) params.minProfitPercent = Number(process.env.PAPER_MIN_PROFIT_PERCENT);
+    if (process.env.PAPER_MIN_NET_PROFIT_QUOTE) params.minNetProfitQuote = process.env.PAPER_MIN_NET_PROFIT_QUOTE;
+    if (process.env.PAPER_MAX_POOL_SHARE_PERCENT) params.maxPoolSharePercent = Number(process.env.PAPER_MAX_POOL_SHARE_PERCENT);
+    if (process.env.PAPER_MAX_CYCLE_HOPS) params.maxCycleHops = Number(process.env.PAPER_MAX_CYCLE_HOPS);
+    return params;
+}
+
 async function main() {
     logInfo('Flash Loan Arbitrage Bot Starting...');
     
-    const privateKey = process.env.PRIVATE_KEY;
-    if (!privateKey) {
-        logError('PRIVATE_KEY not found in .env');
-        process.exit(1);
+    // CHAINS=POLYGON,BSC,ARBITRUM runs several chains in this process; CHAIN is the single-chain fallback
+    const chainNames = (process.env.CHAINS || process.env.CHAIN || 'POLYGON')
+        .split(',')
+        .map(name => name.trim().toUpperCase())
+        .filter(Boolean);
+    
+    // Throws with every registry problem listed, before any bot starts
+    const registry = loadChainRegistry();
+    
+    // DRY_RUN=true paper-trades every chain; PAPER_SHADOW=true runs a paper bot (with the
+    // PAPER_* finder overrides) beside each live one
+    const dryRun = process.env.DRY_RUN === 'true';
+    const shadow = !dryRun && process.env.PAPER_SHADOW === 'true';
+    if (dryRun) logWarning('DRY_RUN enabled: trades are simulated and recorded in the paper book only');
+    
+    const chains: BotChain[] = [];
+    for (const name of chainNames) {
+        const config = registry[name];
+        if (!config) {
+            logError(`Unknown chain ${name}. Expected one of ${Object.keys(registry).join(', ')}`, new Error(name));
+            process.exit(1);
+        }
+        
+        // A per-chain key keeps wallets (and their nonces) separate across chains
+        const privateKey = process.env[`PRIVATE_KEY_${name}`] || process.env.PRIVATE_KEY;
+        if (!privateKey) {
+            logError(`PRIVATE_KEY_${name} or PRIVATE_KEY not found in .env`, new Error(name));
+            process.exit(1);
+        }
+        
+        if (dryRun) {
+            chains.push({ config, privateKey, label: `${config.name} (paper)`, options: { dryRun: true, finderParams: paperFinderParams() } });
+            continue;
+        }
+        
+        chains.push({ config, privateKey, options: {} });
+        if (shadow) {
+            chains.push({ config, privateKey, label: `${config.name} (paper)`, options: { dryRun: true, finderParams: paperFinderParams() } });
+        }
     }
     
-    const chainName = process.env.CHAIN || 'POLYGON';
-    const config = chainName.toUpperCase() === 'BSC' ? BSC_CONFIG : POLYGON_CONFIG;
+    const supervisor = new MultiChainSupervisor(chains, chain => new FlashLoanArbitrageBot(chain.config, chain.privateKey, chain.options));
+    // The API server is a separate process with its own stream on WS_PORT, so the bot's
+    // events go out on a port of their own, as do its metrics
+    const eventStream = new EventStreamServer(Number(process.env.BOT_WS_PORT) || 4001);
+    eventStream.start();
+    
+    collectEventMetrics();
+    const metricsPort = Number(process.env.METRICS_PORT) || 9464;
+    const metricsServer = express().use(metricsRoutes).listen(metricsPort, () => {
+        logInfo(`Metrics on http://0.0.0.0:${metricsPort}/metrics`);
+    });
     
-    const bot = new FlashLoanArbitrageBot(config, privateKey);
+    const statusTimer = setInterval(() => logInfo('Supervisor status', supervisor.getStatus()), STATUS_LOG_INTERVAL_MS);
     
-    process.on('SIGINT', () => {
+    const shutdown = () => {
         console.log('\n\n🛑 Shutting down...\n');
-        bot.stop();
+        clearInterval(statusTimer);
+        supervisor.stop();
+        eventStream.stop();
+        metricsServer.close();
         process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    
+    // A stray rejection from one chain's provider must not take the other chains down
+    process.on('unhandledRejection', (reason: any) => {
+        logError('Unhandled rejection', reason instanceof Error ? reason : new Error(String(reason)));
     });
     
-    await bot.start();
+    await supervisor.start();
 }
 
-main().catch((error) => {
-    logError('Fatal error:', error);
-    process.exit(1);
-});
+if (require.main === module) {
+    main().catch((error) => {
+        logError('Fatal error:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,109 @@
+import { ethers } from 'ethers';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { FlashbotsMEVExecutor } from './flashbots';
+import { MempoolMonitor, RawMEVOpportunity } from './mempool';
+import { DEXConfig } from '../types';
+
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+// Mainnet V2 DEXes: swaps through the first are watched, the rest are where the gap is closed
+const DEXES: DEXConfig[] = [
+    { name: 'UniswapV2', kind: 'v2', router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', factory: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f', feeBps: 30 },
+    { name: 'SushiSwap', kind: 'v2', router: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F', factory: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac', feeBps: 30 }
+];
+
+const RESYNC_INTERVAL_MS = 60_000;
+
+/**
+ * Feeds pending router swaps from the mempool to the Flashbots executor. One bundle is in
+ * flight at a time: the executor holds a nonce until the bundle resolves, several blocks
+ * later, so swaps seen meanwhile are passed over rather than queued behind stale reserves.
+ * Nonces are reconciled between bundles.
+ */
+export class BackrunBot {
+    private executor: FlashbotsMEVExecutor;
+    private monitor: MempoolMonitor;
+    private busy = false;
+    private resyncTimer: NodeJS.Timeout | null = null;
+
+    constructor(executor: FlashbotsMEVExecutor, monitor: MempoolMonitor) {
+        this.executor = executor;
+        this.monitor = monitor;
+    }
+
+    async start(): Promise<void> {
+        await this.executor.initialize();
+        await this.monitor.start(op => this.onOpportunity(op));
+        this.resyncTimer = setInterval(() => this.resync(), RESYNC_INTERVAL_MS);
+    }
+
+    async stop(): Promise<void> {
+        if (this.resyncTimer) clearInterval(this.resyncTimer);
+        await this.monitor.stop();
+    }
+
+    getExecutor(): FlashbotsMEVExecutor {
+        return this.executor;
+    }
+
+    private onOpportunity(op: RawMEVOpportunity): void {
+        if (this.busy) {
+            logger.debug(`Back-run of ${op.targetTxHash} passed over: a bundle is in flight`);
+            return;
+        }
+
+        this.busy = true;
+        this.executor.executeBackrun(op)
+            .catch(error => logger.error(`Back-run of ${op.targetTxHash} failed:`, error))
+            .finally(() => { this.busy = false; });
+    }
+
+    private resync(): void {
+        if (this.busy) return;
+
+        this.busy = true;
+        this.executor.periodicResync()
+            .catch(error => logger.error('Nonce resync failed:', error))
+            .finally(() => { this.busy = false; });
+    }
+}
+
+async function main() {
+    // RPC_URL and WALLET_PRIVATE_KEY come from config; the socket and the contract are MEV-only
+    const rpcWss = (process.env.MEV_RPC_WSS || '').split(',').map(url => url.trim()).filter(Boolean);
+    const helperContract = process.env.MEV_HELPER_CONTRACT;
+    if (rpcWss.length === 0 || !helperContract) {
+        logger.error('MEV_RPC_WSS and MEV_HELPER_CONTRACT must be set');
+        process.exit(1);
+    }
+
+    // The relay signer only builds reputation and holds no funds, so a throwaway key works
+    const relaySignerKey = process.env.FLASHBOTS_SIGNER_KEY || ethers.Wallet.createRandom().privateKey;
+
+    const executor = new FlashbotsMEVExecutor(
+        config.blockchain.rpcUrl,
+        config.blockchain.privateKey,
+        relaySignerKey,
+        helperContract,
+        DEXES,
+        WETH
+    );
+    const monitor = new MempoolMonitor(rpcWss, DEXES[0].router, WETH, Number(process.env.MEV_MIN_TRADE_ETH) || 0.1);
+    const bot = new BackrunBot(executor, monitor);
+
+    const shutdown = () => {
+        bot.stop().finally(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    await bot.start();
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        logger.error('Fatal error:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,145 @@
+import { ethers } from 'ethers';
+import { PoolState, getAmountOut, getReservesFor } from '../poolstate';
+import { solveOptimalBorrow, twoLegHops, otherToken, SwapHop } from '../sizing';
+import { DEXConfig } from '../types';
+import { RawMEVOpportunity } from './mempool';
+
+const FACTORY_ABI = ['function getPair(address tokenA, address tokenB) external view returns (address pair)'];
+const PAIR_ABI = [
+    'function token0() external view returns (address)',
+    'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+];
+
+const FLASH_LOAN_FEE_BPS = 9;
+const MAX_POOL_SHARE_PERCENT = 30;
+
+export interface BackrunPlan {
+    targetTxHash: string;
+    tokenBorrow: string; // Always WETH, so the profit is in ETH
+    borrowAmount: bigint;
+    buyDex: DEXConfig;
+    sellDex: DEXConfig;
+    pathBuy: string[];
+    pathSell: string[];
+    expectedProfitWei: bigint; // After the flash-loan fee, before gas and bribe
+}
+
+/**
+ * Sizes an arbitrage that trades after a pending swap, never before it. The target swap is
+ * replayed on the reserves of its own DEX to get the prices it leaves behind; every other DEX
+ * still has the old price, and the gap between them is borrowed in WETH and closed with
+ * the same two-leg route the arbitrage contract already executes. The user's trade executes
+ * exactly as it would without us.
+ */
+export class BackrunStrategy {
+    private provider: ethers.Provider;
+    private dexes: DEXConfig[];
+    private wethAddress: string;
+
+    constructor(provider: ethers.Provider, dexes: DEXConfig[], wethAddress: string) {
+        this.provider = provider;
+        this.dexes = dexes;
+        this.wethAddress = wethAddress;
+    }
+
+    async plan(op: RawMEVOpportunity): Promise<BackrunPlan | null> {
+        const targetDex = this.dexes.find(d => d.router.toLowerCase() === op.router.toLowerCase());
+        if (!targetDex) return null;
+
+        const afterTarget = await this.applySwap(targetDex, op.path, op.amountIn);
+        if (!afterTarget) return null;
+
+        let best: BackrunPlan | null = null;
+        for (const moved of afterTarget) {
+            // Only hops against WETH, so the borrowed token and the profit are both ETH
+            const weth = [moved.token0, moved.token1].find(t => t.toLowerCase() === this.wethAddress.toLowerCase());
+            if (!weth) continue;
+            const other = otherToken(moved, weth);
+
+            // Sized with constant-product math, so only other V2 DEXes
+            for (const dex of this.dexes) {
+                if (dex === targetDex || dex.kind !== 'v2') continue;
+
+                const pool = await this.loadPool(dex, weth, other);
+                if (!pool) continue;
+
+                for (const hops of [twoLegHops(moved, pool, weth), twoLegHops(pool, moved, weth)]) {
+                    const candidate = this.size(op, hops);
+                    if (candidate && (!best || candidate.expectedProfitWei > best.expectedProfitWei)) {
+                        best = candidate;
+                    }
+                }
+            }
+        }
+        return best;
+    }
+
+    private size(op: RawMEVOpportunity, hops: SwapHop[]): BackrunPlan | null {
+        const sizing = solveOptimalBorrow(hops, {
+            flashLoanFeeBps: FLASH_LOAN_FEE_BPS,
+            maxPoolSharePercent: MAX_POOL_SHARE_PERCENT
+        });
+        if (!sizing) return null;
+
+        const [buy, sell] = hops;
+        return {
+            targetTxHash: op.targetTxHash,
+            tokenBorrow: buy.tokenIn,
+            borrowAmount: sizing.borrowAmount,
+            buyDex: buy.pool.dex,
+            sellDex: sell.pool.dex,
+            pathBuy: [buy.tokenIn, sell.tokenIn],
+            pathSell: [sell.tokenIn, buy.tokenIn],
+            expectedProfitWei: sizing.expectedProfit
+        };
+    }
+
+    /**
+     * Pools along the swap's path with the reserves they will have once it is mined. V2 pairs
+     * keep the fee, so the input side grows by the full amount in.
+     */
+    private async applySwap(dex: DEXConfig, path: string[], amountIn: bigint): Promise<PoolState[] | null> {
+        const pools: PoolState[] = [];
+        let amount = amountIn;
+
+        for (let i = 0; i + 1 < path.length; i++) {
+            const pool = await this.loadPool(dex, path[i], path[i + 1]);
+            if (!pool) return null;
+
+            const [reserveIn, reserveOut] = getReservesFor(pool, path[i]);
+            const amountOut = getAmountOut(amount, reserveIn, reserveOut, dex.feeBps);
+            const zeroIn = path[i].toLowerCase() === pool.token0.toLowerCase();
+
+            pools.push({
+                ...pool,
+                reserve0: zeroIn ? reserveIn + amount : reserveOut - amountOut,
+                reserve1: zeroIn ? reserveOut - amountOut : reserveIn + amount
+            });
+            amount = amountOut;
+        }
+        return pools;
+    }
+
+    private async loadPool(dex: DEXConfig, tokenA: string, tokenB: string): Promise<PoolState | null> {
+        const factory = new ethers.Contract(dex.factory, FACTORY_ABI, this.provider);
+        const pairAddress: string = await factory.getPair(tokenA, tokenB);
+        if (pairAddress === ethers.ZeroAddress) return null;
+
+        const pair = new ethers.Contract(pairAddress, PAIR_ABI, this.provider);
+        const [token0, reserves, blockNumber] = await Promise.all([
+            pair.token0() as Promise<string>,
+            pair.getReserves(),
+            this.provider.getBlockNumber()
+        ]);
+
+        return {
+            address: pairAddress,
+            dex,
+            token0,
+            token1: token0.toLowerCase() === tokenA.toLowerCase() ? tokenB : tokenA,
+            reserve0: reserves.reserve0 as bigint,
+            reserve1: reserves.reserve1 as bigint,
+            blockNumber
+        };
+    }
+}
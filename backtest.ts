@@ -0,0 +1,289 @@
+// src/backtest.ts
+
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { loadChainRegistry } from './chains';
+import { OpportunityFinder, FinderParams } from './opportunityfinder';
+import { createFlashLoanProviders } from './flashloan';
+import { PoolSource, PoolState } from './poolstate';
+import { PricingService, estimateArbitrageGas } from './pricing';
+import { simulateRoute } from './sizing';
+import { logError, logInfo } from './utils/logger';
+import { ChainConfig, DEXConfig, Opportunity, TokenConfig } from './types';
+
+/**
+ * Recorded chain data the backtest replays. Reserves and gas prices are decimal strings in
+ * base units so they survive JSON without losing precision.
+ *
+ *   chain   registry key (POLYGON, BSC, ...); DEXes and tokens come from chains.json
+ *   pools   reserves of every pair as of the block before blocks[0]
+ *   blocks  in order; syncs are the final reserves of each pair the block touched
+ */
+export interface BacktestFixture {
+    chain: string;
+    pools: Array<{
+        address: string;
+        dex: string; // DEX name as in the registry
+        token0: string;
+        token1: string;
+        reserve0: string;
+        reserve1: string;
+    }>;
+    blocks: Array<{
+        number: number;
+        gasPrice: string; // Base gas price of the block in wei, before the chain's priority fee
+        syncs: Array<{ address: string; reserve0: string; reserve1: string }>;
+    }>;
+}
+
+export interface BacktestOptions {
+    params?: Partial<FinderParams>; // Finder thresholds under test; defaults are the live bot's
+    inclusionDelay?: number; // Blocks between seeing an opportunity and the trade landing
+}
+
+export interface BacktestTrade {
+    id: string;
+    detectedBlock: number;
+    inclusionBlock: number;
+    buyDex: string;
+    sellDex: string;
+    borrowAmount: string;
+    expectedNetQuote: string;
+    realisedNetQuote: string;
+    falsePositive: boolean;
+}
+
+export interface BacktestReport {
+    chain: string;
+    quoteSymbol: string;
+    blocks: number;
+    taken: BacktestTrade[];
+    unresolved: number; // Taken too close to the end of the fixture to be priced
+    pnlQuote: string;
+    profitableBlocks: number; // Blocks where a zero-threshold search found a trade that would have paid
+    missed: number;
+    missRate: number;
+    falsePositiveRate: number;
+}
+
+interface PendingTrade {
+    opportunity: Opportunity;
+    detectedBlock: number;
+    inclusionBlock: number;
+    fromOracle: boolean;
+}
+
+// A zero-threshold finder decides what the bot could have taken; anything it finds that
+// still pays at inclusion and the bot passed on is a miss
+const ORACLE_PARAMS: Partial<FinderParams> = { minProfitPercent: 0, minNetProfitQuote: '0' };
+
+/**
+ * Serves pools from a fixture instead of the RPC. Reserves change only when a block
+ * is applied, so every scan of a block sees the same state.
+ */
+export class ReplayPoolSource implements PoolSource {
+    private pools: Map<string, PoolState> = new Map(); // Pair address (lowercase) -> reserves
+    private pairIndex: Map<string, PoolState> = new Map(); // factory:feeBps:tokenLo:tokenHi -> pool
+
+    constructor(fixture: BacktestFixture, config: ChainConfig) {
+        for (const entry of fixture.pools) {
+            const dex = config.dexes.find(d => d.name === entry.dex);
+            if (!dex) throw new Error(`Fixture pool ${entry.address} is on unknown DEX ${entry.dex}`);
+
+            const pool: PoolState = {
+                address: entry.address,
+                dex,
+                token0: entry.token0,
+                token1: entry.token1,
+                reserve0: BigInt(entry.reserve0),
+                reserve1: BigInt(entry.reserve1),
+                blockNumber: (fixture.blocks[0]?.number ?? 1) - 1
+            };
+            this.pools.set(entry.address.toLowerCase(), pool);
+            this.pairIndex.set(this.pairKey(dex, entry.token0, entry.token1), pool);
+        }
+    }
+
+    async getPool(dex: DEXConfig, tokenA: TokenConfig, tokenB: TokenConfig): Promise<PoolState | null> {
+        return this.pairIndex.get(this.pairKey(dex, tokenA.address, tokenB.address)) ?? null;
+    }
+
+    applyBlock(block: BacktestFixture['blocks'][number]): void {
+        for (const sync of block.syncs) {
+            const pool = this.pools.get(sync.address.toLowerCase());
+            if (!pool) throw new Error(`Block ${block.number} syncs unknown pool ${sync.address}`);
+
+            pool.reserve0 = BigInt(sync.reserve0);
+            pool.reserve1 = BigInt(sync.reserve1);
+            pool.blockNumber = block.number;
+        }
+    }
+
+    private pairKey(dex: DEXConfig, tokenA: string, tokenB: string): string {
+        const [lo, hi] = tokenA.toLowerCase() < tokenB.toLowerCase()
+            ? [tokenA.toLowerCase(), tokenB.toLowerCase()]
+            : [tokenB.toLowerCase(), tokenA.toLowerCase()];
+        // V3 fee tiers share a factory, so the tier tells their pools apart
+        return `${dex.factory.toLowerCase()}:${dex.feeBps}:${lo}:${hi}`;
+    }
+}
+
+export function loadFixture(fixturePath: string): BacktestFixture {
+    const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    if (typeof fixture.chain !== 'string' || !Array.isArray(fixture.pools) || !Array.isArray(fixture.blocks)) {
+        throw new Error(`${fixturePath}: expected {chain, pools, blocks}`);
+    }
+    return fixture;
+}
+
+/**
+ * Replays a fixture block by block through the live detection and sizing code.
+ *
+ * After each block the bot's finder picks its top opportunity, as a scan would. The trade is
+ * then priced against the reserves at the end of the inclusion block, which assumes every
+ * other swap in that block landed first. Gas is estimated as in the finder and charged at
+ * the inclusion block's gas price. No on-chain simulation happens, so a trade that the
+ * contract would revert on still counts here, and the bot's own trades do not move the
+ * replayed reserves.
+ */
+export async function runBacktest(
+    fixture: BacktestFixture,
+    config: ChainConfig,
+    options: BacktestOptions = {}
+): Promise<BacktestReport> {
+    const inclusionDelay = options.inclusionDelay ?? 1;
+    const pools = new ReplayPoolSource(fixture, config);
+    const pricing = new PricingService(pools, config);
+    const lenders = createFlashLoanProviders(config, pools);
+    const finder = new OpportunityFinder(config, pools, pricing, lenders, options.params);
+    const oracle = new OpportunityFinder(config, pools, pricing, lenders, { ...options.params, ...ORACLE_PARAMS });
+    const quote = pricing.getQuoteToken();
+
+    const pending: PendingTrade[] = [];
+    const taken: BacktestTrade[] = [];
+    const takenBlocks = new Set<number>();
+    const profitableBlocks = new Set<number>();
+    let pnl = 0n;
+
+    for (const block of fixture.blocks) {
+        pools.applyBlock(block);
+        pricing.setGasPrice(BigInt(block.gasPrice) + config.maxPriorityFee);
+
+        // Settle trades landing in this block before looking for new ones
+        for (const trade of pending.filter(t => t.inclusionBlock === block.number)) {
+            const realised = await realisedNetQuote(trade.opportunity, pricing);
+            if (realised === null) continue;
+
+            if (trade.fromOracle) {
+                if (realised > 0n) profitableBlocks.add(trade.detectedBlock);
+                continue;
+            }
+
+            pnl += realised;
+            taken.push({
+                id: trade.opportunity.id,
+                detectedBlock: trade.detectedBlock,
+                inclusionBlock: trade.inclusionBlock,
+                buyDex: trade.opportunity.buyDexName,
+                sellDex: trade.opportunity.sellDexName,
+                borrowAmount: ethers.utils.formatUnits(trade.opportunity.borrowAmount, trade.opportunity.tokenA.decimals),
+                expectedNetQuote: ethers.utils.formatUnits(trade.opportunity.netProfitQuote, quote.decimals),
+                realisedNetQuote: ethers.utils.formatUnits(realised, quote.decimals),
+                falsePositive: realised <= 0n
+            });
+        }
+
+        // Hops reference the replayed pool objects, so settling later prices the frozen
+        // borrow size against whatever the reserves are by then
+        const inclusionBlock = block.number + inclusionDelay;
+        const [best] = await finder.findOpportunities();
+        if (best) {
+            pending.push({ opportunity: best, detectedBlock: block.number, inclusionBlock, fromOracle: false });
+            takenBlocks.add(block.number);
+        }
+
+        const [oracleBest] = await oracle.findOpportunities();
+        if (oracleBest) {
+            pending.push({ opportunity: oracleBest, detectedBlock: block.number, inclusionBlock, fromOracle: true });
+        }
+    }
+
+    const lastBlock = fixture.blocks[fixture.blocks.length - 1]?.number ?? 0;
+    const unresolved = pending.filter(t => !t.fromOracle && t.inclusionBlock > lastBlock).length;
+    const missed = Array.from(profitableBlocks).filter(n => !takenBlocks.has(n)).length;
+    const falsePositives = taken.filter(t => t.falsePositive).length;
+
+    return {
+        chain: config.name,
+        quoteSymbol: quote.symbol,
+        blocks: fixture.blocks.length,
+        taken,
+        unresolved,
+        pnlQuote: ethers.utils.formatUnits(pnl, quote.decimals),
+        profitableBlocks: profitableBlocks.size,
+        missed,
+        missRate: profitableBlocks.size > 0 ? missed / profitableBlocks.size : 0,
+        falsePositiveRate: taken.length > 0 ? falsePositives / taken.length : 0
+    };
+}
+
+async function realisedNetQuote(
+    opportunity: Opportunity,
+    pricing: PricingService
+): Promise<bigint | null> {
+    const profit = simulateRoute(opportunity.borrowAmount.toBigInt(), opportunity.hops, opportunity.flashLoan.feeBps);
+    const gasCost = await pricing.gasCostInToken(estimateArbitrageGas(opportunity.hops.length), opportunity.tokenA);
+    if (gasCost === null) return null;
+
+    return pricing.toQuote(profit - gasCost, opportunity.tokenA);
+}
+
+function printReport(report: BacktestReport): void {
+    logInfo(`Backtest ${report.chain}: ${report.blocks} blocks, ${report.taken.length} trades taken`);
+    for (const trade of report.taken) {
+        const marker = trade.falsePositive ? 'FALSE POSITIVE' : 'ok';
+        console.log(
+            `  #${trade.detectedBlock} -> #${trade.inclusionBlock} ${trade.id} ${trade.buyDex} -> ${trade.sellDex} ` +
+            `borrow ${trade.borrowAmount}, expected ${trade.expectedNetQuote}, realised ${trade.realisedNetQuote} ${report.quoteSymbol} [${marker}]`
+        );
+    }
+    console.log(`  PnL after gas:        ${report.pnlQuote} ${report.quoteSymbol}`);
+    console.log(`  Miss rate:            ${(report.missRate * 100).toFixed(1)}% (${report.missed}/${report.profitableBlocks} profitable blocks)`);
+    console.log(`  False-positive rate:  ${(report.falsePositiveRate * 100).toFixed(1)}%`);
+    if (report.unresolved > 0) console.log(`  Unresolved:           ${report.unresolved} (landed after the last recorded block)`);
+}
+
+async function main() {
+    // node dist/src/backtest.js <fixture.json> [--json]; finder thresholds via BACKTEST_MIN_PROFIT_PERCENT etc.
+    const [fixturePath, ...flags] = process.argv.slice(2);
+    if (!fixturePath) {
+        console.error('Usage: backtest <fixture.json> [--json]');
+        process.exit(1);
+    }
+
+    const fixture = loadFixture(fixturePath);
+    const config = loadChainRegistry()[fixture.chain];
+    if (!config) throw new Error(`Fixture chain ${fixture.chain} is not in the chain registry`);
+
+    const params: Partial<FinderParams> = {};
+    if (process.env.BACKTEST_MIN_PROFIT_PERCENT) params.minProfitPercent = Number(process.env.BACKTEST_MIN_PROFIT_PERCENT);
+    if (process.env.BACKTEST_MIN_NET_PROFIT_QUOTE) params.minNetProfitQuote = process.env.BACKTEST_MIN_NET_PROFIT_QUOTE;
+
+    const report = await runBacktest(fixture, config, {
+        params,
+        inclusionDelay: Number(process.env.BACKTEST_INCLUSION_DELAY) || 1
+    });
+
+    if (flags.includes('--json')) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        printReport(report);
+    }
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        logError('Backtest failed', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import logger from '../utils/logger';
+import { metrics } from '../metrics';
+
+const DEFAULT_REGISTRY_PATH = path.resolve(__dirname, '..', '..', 'builders.json');
+export const BUILDER_STATS_DIR = path.join(process.cwd(), 'logs', 'builders');
+
+const AUTH_SCHEMES = ['flashbots', 'header', 'none'];
+const REQUEST_TIMEOUT_MS = 3_000; // A bundle is for a block about 12 s away
+const MAX_CONSECUTIVE_FAILURES = 3;
+const FAILURE_COOLDOWN_MS = 60_000;
+// A builder that accepted this many bundles without landing one is dropped; MEV_BUILDER_DROP_AFTER overrides
+const DROP_AFTER_BUNDLES = Number(process.env.MEV_BUILDER_DROP_AFTER || 100);
+
+export type BuilderAuth =
+    | 'flashbots' // X-Flashbots-Signature from the relay signer
+    | 'header' // A fixed header, its value read from the environment
+    | 'none';
+
+export interface BuilderConfig {
+    name: string;
+    url: string;
+    auth: BuilderAuth;
+    header?: string; // auth 'header': the header to set...
+    secretEnv?: string; // ...and the environment variable holding its value
+    coinbase: string[]; // Fee recipients of its blocks, which is how a landed bundle is credited to it
+}
+
+export interface BuilderSubmission {
+    builder: string;
+    bundleHash?: string;
+    error?: string;
+}
+
+interface BuilderStats {
+    submissions: number; // eth_sendBundle calls accepted, one per target block
+    rejected: number;
+    bundles: number; // Distinct bundles accepted for at least one block
+    landed: number;
+    lastError?: string;
+    droppedAt?: number;
+}
+
+export interface BuilderHealth extends BuilderStats {
+    name: string;
+    url: string;
+    state: 'active' | 'cooling_down' | 'dropped';
+    inclusionRate: number | null; // landed / bundles
+}
+
+/**
+ * Loads the block builders for a network from the registry (builders.json, or the file named
+ * by BUILDER_REGISTRY). MEV_BUILDERS, a comma-separated list of names, narrows the list. A
+ * builder whose auth secret is not set is left out with a warning; anything else wrong with
+ * the registry is fatal, with every problem reported at once.
+ */
+export function loadBuilderRegistry(
+    network: string,
+    registryPath: string = process.env.BUILDER_REGISTRY || DEFAULT_REGISTRY_PATH
+): BuilderConfig[] {
+    let registry: any;
+    try {
+        registry = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Cannot read builder registry ${registryPath}: ${error.message}`);
+    }
+
+    const at = `networks.${network}`;
+    const entries = registry.networks?.[network];
+    const errors: string[] = [];
+    if (!Array.isArray(entries) || entries.length === 0) {
+        errors.push(`${at}: must be a non-empty array of builders`);
+    }
+
+    const names = new Set<string>();
+    const builders: BuilderConfig[] = [];
+    (Array.isArray(entries) ? entries : []).forEach((entry: any, i: number) => {
+        const before = errors.length;
+        const entryAt = `${at}[${i}]`;
+
+        if (typeof entry?.name !== 'string' || entry.name.trim() === '') {
+            errors.push(`${entryAt}.name: must be a non-empty string`);
+        } else if (names.has(entry.name)) {
+            errors.push(`${entryAt}.name: duplicate builder ${entry.name}`);
+        } else {
+            names.add(entry.name);
+        }
+        try {
+            if (!['http:', 'https:'].includes(new URL(entry?.url).protocol)) throw new Error();
+        } catch {
+            errors.push(`${entryAt}.url: must be an http or https URL, got ${JSON.stringify(entry?.url)}`);
+        }
+        if (!AUTH_SCHEMES.includes(entry?.auth)) {
+            errors.push(`${entryAt}.auth: must be one of ${AUTH_SCHEMES.join(', ')}, got ${JSON.stringify(entry?.auth)}`);
+        }
+        if (entry?.auth === 'header' && (typeof entry.header !== 'string' || typeof entry.secretEnv !== 'string')) {
+            errors.push(`${entryAt}: auth 'header' needs header and secretEnv`);
+        }
+        if (!Array.isArray(entry?.coinbase)) {
+            errors.push(`${entryAt}.coinbase: must be an array of addresses`);
+        } else {
+            entry.coinbase.forEach((address: any, j: number) => {
+                if (typeof address !== 'string' || !ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+                    errors.push(`${entryAt}.coinbase[${j}]: must be a checksummed address, got ${JSON.stringify(address)}`);
+                }
+            });
+        }
+
+        if (errors.length === before) builders.push(entry);
+    });
+
+    if (errors.length > 0) {
+        console.error(`\n\n======================================================`);
+        console.error(`🚨 FATAL CONFIG ERROR: Invalid builder registry ${registryPath}`);
+        for (const error of errors) console.error(`  - ${error}`);
+        console.error(`======================================================\n`);
+        throw new Error(`Invalid builder registry: ${errors.length} problem(s), first: ${errors[0]}`);
+    }
+
+    const selected = process.env.MEV_BUILDERS?.split(',').map(name => name.trim()).filter(name => name.length > 0);
+    for (const name of selected ?? []) {
+        if (!names.has(name)) throw new Error(`MEV_BUILDERS: ${name} is not in the ${network} builder registry`);
+    }
+
+    return builders
+        .filter(builder => !selected || selected.includes(builder.name))
+        .filter(builder => {
+            if (builder.auth !== 'header' || process.env[builder.secretEnv!]) return true;
+            logger.warn(`Builder ${builder.name} skipped: ${builder.secretEnv} is not set`);
+            return false;
+        })
+        .map(builder => ({
+            name: builder.name,
+            url: builder.url,
+            auth: builder.auth,
+            header: builder.header,
+            secretEnv: builder.secretEnv,
+            coinbase: builder.coinbase
+        }));
+}
+
+/**
+ * Sends bundles to every active builder at once and keeps score of which ones land them.
+ * Scores are persisted to logs/builders/<scope>.json. A builder that fails
+ * MAX_CONSECUTIVE_FAILURES sends in a row rests for FAILURE_COOLDOWN_MS; one that accepts
+ * DROP_AFTER_BUNDLES bundles without landing any is dropped until its scores are deleted.
+ * A builder with no coinbase listed can never be credited, so it is never dropped.
+ */
+export class BundleBroadcaster {
+    private builders: BuilderConfig[];
+    private signer: ethers.Wallet;
+    private file: string;
+    private stats: Record<string, BuilderStats>;
+    private consecutiveFailures: Map<string, number> = new Map();
+    private downUntil: Map<string, number> = new Map();
+
+    constructor(builders: BuilderConfig[], signer: ethers.Wallet, scope: string, dir: string = BUILDER_STATS_DIR) {
+        this.builders = builders;
+        this.signer = signer;
+        this.file = path.join(dir, `${scope}.json`);
+        this.stats = this.load();
+        for (const builder of builders) {
+            this.stats[builder.name] ??= { submissions: 0, rejected: 0, bundles: 0, landed: 0 };
+        }
+        logger.info(`Bundle builders: ${builders.map(b => `${b.name} (${this.state(b.name)})`).join(', ')}`);
+    }
+
+    /**
+     * Sends the bundle for one block to every active builder. Never throws; each builder's
+     * answer or error is in the result.
+     */
+    async broadcast(signedTransactions: string[], blockNumber: number): Promise<BuilderSubmission[]> {
+        const active = this.builders.filter(builder => this.state(builder.name) === 'active');
+        if (active.length === 0) return [];
+
+        const body = JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'eth_sendBundle',
+            params: [{ txs: signedTransactions, blockNumber: ethers.toQuantity(blockNumber) }]
+        });
+        const signature = active.some(builder => builder.auth === 'flashbots')
+            ? `${this.signer.address}:${await this.signer.signMessage(ethers.id(body))}`
+            : '';
+
+        return Promise.all(active.map(builder => this.send(builder, body, signature)));
+    }
+
+    /**
+     * Scores one bundle once it is resolved: every builder that accepted it sent one more,
+     * and the builder whose block included it (known by the block's fee recipient) landed
+     * one. Returns that builder's name.
+     */
+    recordOutcome(acceptedBy: string[], landedCoinbase?: string): string | undefined {
+        const lander = landedCoinbase
+            ? this.builders.find(b => b.coinbase.some(address => address.toLowerCase() === landedCoinbase.toLowerCase()))
+            : undefined;
+
+        for (const name of acceptedBy) {
+            const stats = this.stats[name];
+            stats.bundles++;
+            if (name === lander?.name) {
+                stats.landed++;
+                metrics.builderInclusions.inc({ builder: name });
+            }
+
+            const builder = this.builders.find(b => b.name === name);
+            if (!stats.droppedAt && builder && builder.coinbase.length > 0
+                && stats.landed === 0 && stats.bundles >= DROP_AFTER_BUNDLES) {
+                stats.droppedAt = Date.now();
+                logger.warn(`Builder ${name} dropped: ${stats.bundles} bundles sent, none landed`);
+            }
+        }
+        this.save();
+        return lander?.name;
+    }
+
+    getHealth(): BuilderHealth[] {
+        return this.builders.map(builder => {
+            const stats = this.stats[builder.name];
+            return {
+                name: builder.name,
+                url: builder.url,
+                state: this.state(builder.name),
+                ...stats,
+                inclusionRate: stats.bundles > 0 ? stats.landed / stats.bundles : null
+            };
+        });
+    }
+
+    private async send(builder: BuilderConfig, body: string, signature: string): Promise<BuilderSubmission> {
+        const stats = this.stats[builder.name];
+        const request = new ethers.FetchRequest(builder.url);
+        request.body = body;
+        request.timeout = REQUEST_TIMEOUT_MS;
+        request.setHeader('Content-Type', 'application/json');
+        if (builder.auth === 'flashbots') request.setHeader('X-Flashbots-Signature', signature);
+        if (builder.auth === 'header') request.setHeader(builder.header!, process.env[builder.secretEnv!]!);
+
+        try {
+            const response = await request.send();
+            response.assertOk();
+            const json = response.bodyJson;
+            if (json.error) throw new Error(json.error.message ?? JSON.stringify(json.error));
+
+            stats.submissions++;
+            this.consecutiveFailures.delete(builder.name);
+            metrics.builderSubmissions.inc({ builder: builder.name, result: 'accepted' });
+            return { builder: builder.name, bundleHash: json.result?.bundleHash };
+        } catch (error: any) {
+            const message = error.shortMessage ?? error.message;
+            stats.rejected++;
+            stats.lastError = message;
+            metrics.builderSubmissions.inc({ builder: builder.name, result: 'rejected' });
+
+            const failures = (this.consecutiveFailures.get(builder.name) ?? 0) + 1;
+            this.consecutiveFailures.set(builder.name, failures);
+            if (failures >= MAX_CONSECUTIVE_FAILURES) {
+                this.consecutiveFailures.delete(builder.name);
+                this.downUntil.set(builder.name, Date.now() + FAILURE_COOLDOWN_MS);
+                logger.warn(`Builder ${builder.name} failed ${failures} sends in a row, resting for ${FAILURE_COOLDOWN_MS / 1000}s: ${message}`);
+            }
+            return { builder: builder.name, error: message };
+        }
+    }
+
+    private state(name: string): BuilderHealth['state'] {
+        if (this.stats[name].droppedAt) return 'dropped';
+        if ((this.downUntil.get(name) ?? 0) > Date.now()) return 'cooling_down';
+        return 'active';
+    }
+
+    private load(): Record<string, BuilderStats> {
+        try {
+            return JSON.parse(fs.readFileSync(this.file, 'utf8'));
+        } catch {
+            return {};
+        }
+    }
+
+    private save(): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(this.stats, null, 2));
+        fs.renameSync(`${this.file}.tmp`, this.file);
+    }
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+
+export const BUNDLE_HISTORY_DIR = path.join(process.cwd(), 'logs', 'bundles');
+const MAX_RECORDS = 5000; // Oldest records are dropped beyond this
+
+export type BundleResolution =
+    | 'pending'
+    | 'included'
+    | 'block_passed' // Every target block mined without the bundle
+    | 'nonce_too_high' // A transaction was mined without the rest, or its nonce used by another
+    | 'simulation_failed'
+    | 'submission_failed' // No builder accepted the bundle
+    | 'unknown'; // Accepted, but the chain stopped answering before its fate was known
+
+export interface BundleSimulation {
+    success: boolean;
+    gasUsed?: number;
+    coinbaseDiffWei?: string; // Everything the bundle pays the builder, fees included
+    error?: string;
+}
+
+export interface BundleRecord {
+    bundleHash: string | null; // null when no builder accepted the bundle
+    chain: string;
+    targetTxHash?: string; // The swap a back-run follows; absent for bundles sent through the API
+    targetBlock: number; // The first block targeted
+    lastTargetBlock: number; // The last, when the bundle was re-targeted while still valid
+    builders: string[]; // Builders that accepted it for at least one block
+    submittedAt: number;
+    nonces: number[];
+    bribePercent: number | null; // Share of the net profit bid as priority fee; null when not ours to set
+    coinbasePaymentWei: string; // Expected bribe, replaced by the simulated coinbase diff once known
+    simulation?: BundleSimulation;
+    resolution: BundleResolution;
+    resolvedAt?: number;
+    includedBlock?: number;
+    includedBy?: string; // Builder of the including block, when its fee recipient is known
+}
+
+export interface BribeInclusionStats {
+    bribePercent: number | null;
+    bundles: number;
+    simulationFailures: number;
+    resolved: number; // Bundles the relay reported on: included, block passed or nonce too high
+    included: number;
+    inclusionRate: number | null; // included / resolved
+}
+
+/**
+ * Every bundle the executor sends, persisted to logs/bundles/<scope>.json (written to a
+ * temporary file and renamed, like the nonce and risk state) so inclusion statistics
+ * survive restarts.
+ */
+export class BundleHistory {
+    private file: string;
+    private records: BundleRecord[];
+
+    constructor(scope: string, dir: string = BUNDLE_HISTORY_DIR) {
+        this.file = path.join(dir, `${scope}.json`);
+        this.records = this.load();
+    }
+
+    add(record: BundleRecord): BundleRecord {
+        this.records.push(record);
+        if (this.records.length > MAX_RECORDS) this.records.splice(0, this.records.length - MAX_RECORDS);
+        this.save();
+        return record;
+    }
+
+    update(record: BundleRecord, changes: Partial<BundleRecord>): void {
+        Object.assign(record, changes);
+        this.save();
+    }
+
+    find(bundleHash: string): BundleRecord | undefined {
+        return this.records.find(r => r.bundleHash?.toLowerCase() === bundleHash.toLowerCase());
+    }
+
+    /**
+     * Newest first.
+     */
+    list(limit: number = 100): BundleRecord[] {
+        return this.records.slice(-limit).reverse();
+    }
+
+    inclusionByBribe(): BribeInclusionStats[] {
+        const groups = new Map<number | null, BribeInclusionStats>();
+
+        for (const record of this.records) {
+            const stats = groups.get(record.bribePercent) ?? {
+                bribePercent: record.bribePercent,
+                bundles: 0,
+                simulationFailures: 0,
+                resolved: 0,
+                included: 0,
+                inclusionRate: null
+            };
+            stats.bundles++;
+            if (record.resolution === 'simulation_failed') stats.simulationFailures++;
+            if (['included', 'block_passed', 'nonce_too_high'].includes(record.resolution)) stats.resolved++;
+            if (record.resolution === 'included') stats.included++;
+            groups.set(record.bribePercent, stats);
+        }
+
+        return [...groups.values()]
+            .map(stats => ({ ...stats, inclusionRate: stats.resolved > 0 ? stats.included / stats.resolved : null }))
+            .sort((a, b) => (a.bribePercent ?? -1) - (b.bribePercent ?? -1));
+    }
+
+    private load(): BundleRecord[] {
+        try {
+            return JSON.parse(fs.readFileSync(this.file, 'utf8'));
+        } catch {
+            return [];
+        }
+    }
+
+    private save(): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(this.records, null, 2));
+        fs.renameSync(`${this.file}.tmp`, this.file);
+    }
+}
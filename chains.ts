@@ -0,0 +1,350 @@
+// src/chains.ts
+
+import { ethers } from 'ethers';
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChainConfig, DEXConfig, TokenConfig, RiskLimits, FlashLoanProviderConfig } from './types';
+import { DEFAULT_RISK_LIMITS } from './riskmanager';
+import { DEFAULT_FLASH_LOAN_PROVIDERS } from './flashloan';
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+// Resolved from the working directory so ts-node (src/) and the build (dist/src/) find the same file
+const DEFAULT_REGISTRY_PATH = path.join(process.cwd(), 'chains.json');
+const MAX_FEE_BPS = 1000;
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+const FLASH_LOAN_KINDS = ['aave', 'uniswapV2', 'balancer'];
+const DEX_KINDS = ['v2', 'v3'];
+
+/**
+ * Loads chain, DEX and token definitions from the JSON registry (chains.json, or the file
+ * named by CHAIN_REGISTRY) and validates them.
+ *
+ * Registry shape:
+ *   contractAddress          default arbitrage contract for every chain, a FlashLoanArbitrage.sol
+ *                            deployment; older deployments only have executeArbitrage, so
+ *                            they need Aave as the only lender and V2-only DEXes
+ *   chains.<KEY>             one entry per chain; KEY is what CHAINS/CHAIN select
+ *   chains.<KEY>.risk        optional circuit-breaker limits; minBalance defaults to the chain's
+ *   chains.<KEY>.dexes[].kind
+ *                            v2 (default) or v3; a v3 DEX is listed once per fee tier, with
+ *                            the tier as feeBps and the SwapRouter as router; a v2 DEX must
+ *                            charge feeBps on every pair and in both directions, so forks with
+ *                            per-pair dynamic fees (e.g. Camelot) cannot be listed
+ *   chains.<KEY>.flashLoanProviders
+ *                            optional lenders (aave, balancer, uniswapV2); defaults to the
+ *                            contract's built-in Aave loan at 9 bps
+ *   environments.<env>.<KEY> partial chain entries merged over chains.<KEY> for NODE_ENV=env;
+ *                            arrays (dexes, tokens) replace the base list rather than merge
+ *
+ * rpcHttp and rpcWss take one URL or a list of them; <KEY>_RPC and <KEY>_WSS override them
+ * with a comma-separated list, and <KEY>_CONTRACT overrides the contract for a chain. Every problem found is reported at once, with its JSON path.
+ */
+export function loadChainRegistry(
+    registryPath: string = process.env.CHAIN_REGISTRY || DEFAULT_REGISTRY_PATH,
+    environment: string = process.env.NODE_ENV || 'development'
+): Record<string, ChainConfig> {
+    let registry: any;
+    try {
+        registry = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Cannot read chain registry ${registryPath}: ${error.message}`);
+    }
+
+    const errors: string[] = [];
+    const chains: Record<string, ChainConfig> = {};
+
+    const defaultContract = registry.contractAddress;
+    if (defaultContract !== undefined) checkAddress(defaultContract, 'contractAddress', errors);
+
+    if (!isObject(registry.chains)) {
+        errors.push('chains: must be an object keyed by chain name');
+    }
+
+    const overrides = registry.environments?.[environment] ?? {};
+    if (!isObject(overrides)) {
+        errors.push(`environments.${environment}: must be an object`);
+    } else {
+        for (const key of Object.keys(overrides)) {
+            if (!registry.chains?.[key]) {
+                errors.push(`environments.${environment}.${key}: overrides a chain that is not defined in chains`);
+            }
+        }
+    }
+
+    for (const [key, base] of Object.entries<any>(isObject(registry.chains) ? registry.chains : {})) {
+        const entry = {
+            ...base,
+            ...(isObject(overrides) ? overrides[key] : undefined),
+            rpcHttp: envList(`${key}_RPC`) || overrides[key]?.rpcHttp || base.rpcHttp,
+            rpcWss: envList(`${key}_WSS`) || overrides[key]?.rpcWss || base.rpcWss,
+            contractAddress: process.env[`${key}_CONTRACT`] || overrides[key]?.contractAddress || base.contractAddress || defaultContract
+        };
+
+        const config = validateChain(entry, `chains.${key}`, errors);
+        if (config) chains[key] = config;
+    }
+
+    if (errors.length > 0) {
+        // Same loud block as config.ts so it stands out in Railway logs
+        console.error(`\n\n======================================================`);
+        console.error(`🚨 FATAL CONFIG ERROR: Invalid chain registry ${registryPath} (${environment})`);
+        for (const error of errors) console.error(`  - ${error}`);
+        console.error(`======================================================\n`);
+        throw new Error(`Invalid chain registry: ${errors.length} problem(s), first: ${errors[0]}`);
+    }
+
+    return chains;
+}
+
+function validateChain(entry: any, at: string, errors: string[]): ChainConfig | null {
+    const before = errors.length;
+
+    checkString(entry.name, `${at}.name`, errors);
+    if (!Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+        errors.push(`${at}.chainId: must be a positive integer, got ${JSON.stringify(entry.chainId)}`);
+    }
+    const rpcHttp = validateUrls(entry.rpcHttp, ['http:', 'https:'], `${at}.rpcHttp`, errors);
+    const rpcWss = validateUrls(entry.rpcWss, ['ws:', 'wss:'], `${at}.rpcWss`, errors);
+    checkAddress(entry.contractAddress, `${at}.contractAddress`, errors);
+    checkString(entry.gasToken, `${at}.gasToken`, errors);
+    checkAddress(entry.wrappedNative, `${at}.wrappedNative`, errors);
+    checkString(entry.quoteToken, `${at}.quoteToken`, errors);
+    checkDecimal(entry.maxPriorityFeeGwei, `${at}.maxPriorityFeeGwei`, errors);
+    checkDecimal(entry.minBalance, `${at}.minBalance`, errors);
+
+    const risk = validateRisk(entry.risk, entry.minBalance, `${at}.risk`, errors);
+    const dexes = validateDexes(entry.dexes, `${at}.dexes`, errors);
+    const tokens = validateTokens(entry.tokens, `${at}.tokens`, errors);
+    const flashLoanProviders = validateFlashLoanProviders(entry.flashLoanProviders, `${at}.flashLoanProviders`, errors);
+
+    if (tokens && typeof entry.wrappedNative === 'string'
+        && !tokens.some(t => t.address.toLowerCase() === entry.wrappedNative.toLowerCase())) {
+        errors.push(`${at}.wrappedNative: ${entry.wrappedNative} is not in tokens`);
+    }
+    if (tokens && typeof entry.quoteToken === 'string' && !tokens.some(t => t.symbol === entry.quoteToken)) {
+        errors.push(`${at}.quoteToken: ${entry.quoteToken} is not a token symbol`);
+    }
+
+    if (errors.length > before || !dexes || !tokens || !rpcHttp || !rpcWss) return null;
+
+    return {
+        name: entry.name,
+        rpcHttp,
+        rpcWss,
+        chainId: entry.chainId,
+        contractAddress: entry.contractAddress,
+        gasToken: entry.gasToken,
+        wrappedNative: entry.wrappedNative,
+        quoteToken: entry.quoteToken,
+        maxPriorityFee: ethers.utils.parseUnits(entry.maxPriorityFeeGwei, 'gwei').toBigInt(),
+        minBalance: entry.minBalance,
+        risk,
+        flashLoanProviders,
+        dexes,
+        tokens
+    };
+}
+
+function validateDexes(value: any, at: string, errors: string[]): DEXConfig[] | null {
+    if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${at}: must be a non-empty array`);
+        return null;
+    }
+
+    const routers = new Map<string, number>();
+    const factories = new Map<string, number>();
+
+    value.forEach((dex: any, i: number) => {
+        const dexAt = `${at}[${i}]`;
+        checkString(dex?.name, `${dexAt}.name`, errors);
+        checkAddress(dex?.router, `${dexAt}.router`, errors);
+        checkAddress(dex?.factory, `${dexAt}.factory`, errors);
+
+        if (dex?.kind !== undefined && !DEX_KINDS.includes(dex.kind)) {
+            errors.push(`${dexAt}.kind: must be one of ${DEX_KINDS.join(', ')}, got ${JSON.stringify(dex.kind)}`);
+        }
+        if (!Number.isInteger(dex?.feeBps) || dex.feeBps < 0 || dex.feeBps > MAX_FEE_BPS) {
+            errors.push(`${dexAt}.feeBps: must be an integer between 0 and ${MAX_FEE_BPS}, got ${JSON.stringify(dex?.feeBps)}`);
+        }
+
+        // V3 fee tiers of one DEX share the router and factory
+        const tier = dex?.kind === 'v3' ? `:${dex.feeBps}` : '';
+        checkDistinct(typeof dex?.router === 'string' ? dex.router + tier : dex?.router, routers, i, `${dexAt}.router`, at, errors);
+        checkDistinct(typeof dex?.factory === 'string' ? dex.factory + tier : dex?.factory, factories, i, `${dexAt}.factory`, at, errors);
+    });
+
+    return value.map((dex: any) => ({
+        name: dex.name,
+        kind: dex.kind ?? 'v2',
+        router: dex.router,
+        factory: dex.factory,
+        feeBps: dex.feeBps
+    }));
+}
+
+function validateTokens(value: any, at: string, errors: string[]): TokenConfig[] | null {
+    if (!Array.isArray(value) || value.length < 2) {
+        errors.push(`${at}: must be an array of at least two tokens`);
+        return null;
+    }
+
+    const symbols = new Map<string, number>();
+    const addresses = new Map<string, number>();
+
+    value.forEach((token: any, i: number) => {
+        const tokenAt = `${at}[${i}]`;
+        checkString(token?.symbol, `${tokenAt}.symbol`, errors);
+        checkAddress(token?.address, `${tokenAt}.address`, errors);
+
+        if (!Number.isInteger(token?.decimals) || token.decimals < 0 || token.decimals > 36) {
+            errors.push(`${tokenAt}.decimals: must be an integer between 0 and 36, got ${JSON.stringify(token?.decimals)}`);
+        }
+        if (token?.maxBorrow !== undefined) checkDecimal(token.maxBorrow, `${tokenAt}.maxBorrow`, errors);
+        if (token?.maxNotionalQuote !== undefined) checkDecimal(token.maxNotionalQuote, `${tokenAt}.maxNotionalQuote`, errors);
+
+        checkDistinct(token?.symbol, symbols, i, `${tokenAt}.symbol`, at, errors);
+        checkDistinct(token?.address, addresses, i, `${tokenAt}.address`, at, errors);
+    });
+
+    return value.map((token: any) => ({
+        symbol: token.symbol,
+        address: token.address,
+        decimals: token.decimals,
+        maxBorrow: token.maxBorrow,
+        maxNotionalQuote: token.maxNotionalQuote
+    }));
+}
+
+function validateFlashLoanProviders(value: any, at: string, errors: string[]): FlashLoanProviderConfig[] {
+    if (value === undefined) return DEFAULT_FLASH_LOAN_PROVIDERS;
+    if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${at}: must be a non-empty array`);
+        return DEFAULT_FLASH_LOAN_PROVIDERS;
+    }
+
+    const names = new Map<string, number>();
+
+    value.forEach((provider: any, i: number) => {
+        const providerAt = `${at}[${i}]`;
+        checkString(provider?.name, `${providerAt}.name`, errors);
+
+        if (!FLASH_LOAN_KINDS.includes(provider?.kind)) {
+            errors.push(`${providerAt}.kind: must be one of ${FLASH_LOAN_KINDS.join(', ')}, got ${JSON.stringify(provider?.kind)}`);
+        }
+        // The vault is where a Balancer loan is taken; an Aave pool only serves liquidity reads
+        if (provider?.address !== undefined || provider?.kind === 'balancer') {
+            checkAddress(provider?.address, `${providerAt}.address`, errors);
+        }
+        if (provider?.feeBps !== undefined && (!Number.isInteger(provider.feeBps) || provider.feeBps < 0 || provider.feeBps > MAX_FEE_BPS)) {
+            errors.push(`${providerAt}.feeBps: must be an integer between 0 and ${MAX_FEE_BPS}, got ${JSON.stringify(provider.feeBps)}`);
+        }
+
+        checkDistinct(provider?.name, names, i, `${providerAt}.name`, at, errors);
+    });
+
+    return value.map((provider: any) => ({
+        kind: provider.kind,
+        name: provider.name,
+        address: provider.address,
+        feeBps: provider.feeBps
+    }));
+}
+
+function validateRisk(value: any, minBalance: any, at: string, errors: string[]): RiskLimits {
+    if (value !== undefined && !isObject(value)) {
+        errors.push(`${at}: must be an object`);
+        return { ...DEFAULT_RISK_LIMITS, minBalance };
+    }
+
+    const risk: RiskLimits = { ...DEFAULT_RISK_LIMITS, minBalance, ...value };
+
+    checkDecimal(risk.maxGasPerHour, `${at}.maxGasPerHour`, errors);
+    checkDecimal(risk.maxDailyLossQuote, `${at}.maxDailyLossQuote`, errors);
+    checkDecimal(risk.maxNotionalQuote, `${at}.maxNotionalQuote`, errors);
+    checkDecimal(risk.minBalance, `${at}.minBalance`, errors);
+    if (!Number.isInteger(risk.maxConsecutiveReverts) || risk.maxConsecutiveReverts < 1) {
+        errors.push(`${at}.maxConsecutiveReverts: must be a positive integer, got ${JSON.stringify(risk.maxConsecutiveReverts)}`);
+    }
+    return risk;
+}
+
+function checkAddress(value: any, at: string, errors: string[]): void {
+    if (typeof value !== 'string') {
+        errors.push(`${at}: must be an address string`);
+        return;
+    }
+
+    let checksummed: string;
+    try {
+        checksummed = ethers.utils.getAddress(value);
+    } catch {
+        errors.push(`${at}: ${value} is not a valid address`);
+        return;
+    }
+
+    if (checksummed !== value) {
+        errors.push(`${at}: ${value} is not checksummed, expected ${checksummed}`);
+    }
+}
+
+function checkString(value: any, at: string, errors: string[]): void {
+    if (typeof value !== 'string' || value.trim() === '') {
+        errors.push(`${at}: must be a non-empty string`);
+    }
+}
+
+function checkDecimal(value: any, at: string, errors: string[]): void {
+    if (typeof value !== 'string' || !DECIMAL_PATTERN.test(value)) {
+        errors.push(`${at}: must be a decimal string such as "0.5", got ${JSON.stringify(value)}`);
+    }
+}
+
+// One URL or a non-empty list of distinct URLs
+function validateUrls(value: any, protocols: string[], at: string, errors: string[]): string[] | null {
+    const urls = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(urls) || urls.length === 0) {
+        errors.push(`${at}: must be a URL or a non-empty array of URLs`);
+        return null;
+    }
+
+    const before = errors.length;
+    const seen = new Map<string, number>();
+    urls.forEach((url, i) => {
+        const urlAt = typeof value === 'string' ? at : `${at}[${i}]`;
+        checkUrl(url, protocols, urlAt, errors);
+        checkDistinct(url, seen, i, urlAt, at, errors);
+    });
+    return errors.length > before ? null : urls;
+}
+
+// Comma-separated list from the environment, or undefined when unset
+function envList(name: string): string[] | undefined {
+    const value = process.env[name];
+    if (!value) return undefined;
+    return value.split(',').map(url => url.trim()).filter(url => url.length > 0);
+}
+
+function checkUrl(value: any, protocols: string[], at: string, errors: string[]): void {
+    try {
+        if (!protocols.includes(new URL(value).protocol)) throw new Error();
+    } catch {
+        errors.push(`${at}: must be a ${protocols.join(' or ')} URL, got ${JSON.stringify(value)}`);
+    }
+}
+
+function checkDistinct(value: any, seen: Map<string, number>, index: number, at: string, listAt: string, errors: string[]): void {
+    if (typeof value !== 'string') return;
+
+    const key = value.toLowerCase();
+    if (seen.has(key)) {
+        errors.push(`${at}: duplicates ${listAt}[${seen.get(key)}]`);
+    } else {
+        seen.set(key, index);
+    }
+}
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,155 @@
+// src/concentratedliquidity.ts
+
+export const Q96 = 1n << 96n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n; // V3 fees are in hundredths of a basis point
+
+export interface TickLiquidity {
+    index: number;
+    liquidityNet: bigint; // Added to the active liquidity when the price crosses the tick upwards
+}
+
+/**
+ * State of a UniswapV3-style pool. Only the initialized ticks within [lowerTick, upperTick]
+ * are loaded, so a swap that would push the price out of that window cannot be priced.
+ */
+export interface ConcentratedLiquidity {
+    sqrtPriceX96: bigint;
+    tick: number;
+    liquidity: bigint; // Active liquidity at the current price
+    tickSpacing: number;
+    ticks: TickLiquidity[]; // Ascending by index
+    lowerTick: number;
+    upperTick: number;
+}
+
+// Bit of |tick| -> 2^128 / sqrt(1.0001)^(bit), as in TickMath.getSqrtRatioAtTick
+const TICK_RATIOS: Array<[number, bigint]> = [
+    [0x2, 0xfff97272373d413259a46990580e213an],
+    [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+    [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+    [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+    [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+    [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+    [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+    [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+    [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+    [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+    [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+    [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+    [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+    [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+    [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+    [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+    [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+    [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+    [0x80000, 0x48a170391f7dc42444e8fa2n]
+];
+
+/**
+ * sqrt(1.0001^tick) as a Q64.96, rounded up exactly like TickMath.
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+    const absTick = Math.abs(tick);
+    if (absTick > MAX_TICK) throw new Error(`Tick ${tick} out of range`);
+
+    let ratio = absTick & 0x1 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 1n << 128n;
+    for (const [bit, factor] of TICK_RATIOS) {
+        if (absTick & bit) ratio = (ratio * factor) >> 128n;
+    }
+    if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+    return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Reserves of a constant-product pool with the same price and in-range depth. Good for mid
+ * prices and depth limits; swaps must go through swapExactIn.
+ */
+export function virtualReserves(state: ConcentratedLiquidity): [bigint, bigint] {
+    if (state.sqrtPriceX96 === 0n) return [0n, 0n];
+    return [
+        state.liquidity * Q96 / state.sqrtPriceX96,
+        state.liquidity * state.sqrtPriceX96 / Q96
+    ];
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+    return a / b + (a % b === 0n ? 0n : 1n);
+}
+
+// Token0 between two prices, lower < upper
+function amount0Delta(lower: bigint, upper: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    const numerator = liquidity * Q96 * (upper - lower);
+    return roundUp
+        ? divRoundingUp(divRoundingUp(numerator, upper), lower)
+        : numerator / upper / lower;
+}
+
+// Token1 between two prices, lower < upper
+function amount1Delta(lower: bigint, upper: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    const numerator = liquidity * (upper - lower);
+    return roundUp ? divRoundingUp(numerator, Q96) : numerator / Q96;
+}
+
+/**
+ * Output of an exact-input swap, crossing initialized ticks the way the pool does. Returns
+ * 0 when the swap would leave the loaded tick window, since the liquidity beyond it is
+ * unknown.
+ */
+export function swapExactIn(state: ConcentratedLiquidity, zeroForOne: boolean, amountIn: bigint, feeBps: number): bigint {
+    if (amountIn <= 0n) return 0n;
+
+    const fee = BigInt(feeBps) * 100n;
+    let sqrtPrice = state.sqrtPriceX96;
+    let liquidity = state.liquidity;
+    let tick = state.tick;
+    let remaining = amountIn;
+    let amountOut = 0n;
+
+    while (remaining > 0n) {
+        // Next initialized tick in the swap direction, or the edge of what was loaded
+        const next = zeroForOne
+            ? [...state.ticks].reverse().find(t => t.index <= tick)
+            : state.ticks.find(t => t.index > tick);
+        const edge = zeroForOne ? state.lowerTick : state.upperTick;
+        const targetTick = next ? next.index : edge;
+        const target = getSqrtRatioAtTick(Math.min(Math.max(targetTick, MIN_TICK), MAX_TICK));
+
+        const remainingLessFee = remaining * (FEE_DENOMINATOR - fee) / FEE_DENOMINATOR;
+        const toTarget = liquidity === 0n
+            ? 0n
+            : zeroForOne
+                ? amount0Delta(target, sqrtPrice, liquidity, true)
+                : amount1Delta(sqrtPrice, target, liquidity, true);
+
+        if (liquidity > 0n && remainingLessFee < toTarget) {
+            // Runs out before the next tick
+            if (zeroForOne) {
+                const product = remainingLessFee * sqrtPrice;
+                const newPrice = divRoundingUp(liquidity * Q96 * sqrtPrice, liquidity * Q96 + product);
+                amountOut += amount1Delta(newPrice, sqrtPrice, liquidity, false);
+            } else {
+                const newPrice = sqrtPrice + remainingLessFee * Q96 / liquidity;
+                amountOut += amount0Delta(sqrtPrice, newPrice, liquidity, false);
+            }
+            return amountOut;
+        }
+
+        if (liquidity > 0n) {
+            amountOut += zeroForOne
+                ? amount1Delta(target, sqrtPrice, liquidity, false)
+                : amount0Delta(sqrtPrice, target, liquidity, false);
+            remaining -= toTarget + divRoundingUp(toTarget * fee, FEE_DENOMINATOR - fee);
+        }
+        if (!next) return 0n;
+
+        sqrtPrice = target;
+        liquidity = zeroForOne ? liquidity - next.liquidityNet : liquidity + next.liquidityNet;
+        tick = zeroForOne ? next.index - 1 : next.index;
+    }
+    return amountOut;
+}
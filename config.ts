@@ -21,7 +21,7 @@ export const config = {
     server: {
         // Uses the PORT provided by the cloud, defaulting to 3000
         port: process.env.PORT || 3000,
-        wsPort: 4000,
+        wsPort: Number(process.env.WS_PORT) || 4000,
         environment: process.env.NODE_ENV || 'development',
     },
     blockchain: {
@@ -29,6 +29,12 @@ export const config = {
         rpcUrl: getRequiredEnv('RPC_URL'),
         privateKey: getRequiredEnv('WALLET_PRIVATE_KEY'),
     },
+    flashbots: {
+        relayUrl: process.env.FLASHBOTS_RELAY_URL || 'https://relay.flashbots.net',
+        minProfitEth: Number(process.env.MEV_MIN_PROFIT_ETH) || 0.01,
+        // Largest flash loan a back-run may take, in ETH
+        maxBorrowEth: process.env.MEV_MAX_BORROW_ETH || '100',
+    },
     // IMPORTANT: Add safety checks for all other critical secrets used by the application here:
     // example: externalApiKey: getRequiredEnv('EXTERNAL_API_KEY'),
 };
@@ -0,0 +1,140 @@
+// src/cycles.ts
+
+import { PoolState, getReservesFor } from './poolstate';
+import { SwapHop, otherToken } from './sizing';
+
+export interface RouteLegs {
+    buyHops: SwapHop[];
+    sellHops: SwapHop[];
+}
+
+interface Edge {
+    pool: PoolState;
+    tokenIn: string;
+    tokenOut: string;
+    weight: number; // -ln(marginal rate after fee)
+}
+
+/**
+ * executeArbitrage swaps pathBuy on one router and pathSell on another, so a cycle is only
+ * executable if it splits into two contiguous runs of hops that each stay on a single DEX.
+ */
+export function splitIntoLegs(hops: SwapHop[]): RouteLegs | null {
+    for (let cut = 1; cut < hops.length; cut++) {
+        const buyHops = hops.slice(0, cut);
+        const sellHops = hops.slice(cut);
+        const buyRouter = buyHops[0].pool.dex.router;
+        const sellRouter = sellHops[0].pool.dex.router;
+
+        if (buyHops.every(h => h.pool.dex.router === buyRouter) && sellHops.every(h => h.pool.dex.router === sellRouter)) {
+            return { buyHops, sellHops };
+        }
+    }
+    return null;
+}
+
+/**
+ * Token path traded by a run of hops, e.g. [WMATIC, USDC, WETH].
+ */
+export function hopsToPath(hops: SwapHop[]): string[] {
+    return [hops[0].tokenIn, ...hops.map(h => otherToken(h.pool, h.tokenIn))];
+}
+
+function buildEdges(pools: PoolState[]): Map<string, Edge[]> {
+    const edges: Map<string, Edge[]> = new Map();
+
+    const addEdge = (pool: PoolState, tokenIn: string) => {
+        const [reserveIn, reserveOut] = getReservesFor(pool, tokenIn);
+        if (reserveIn === 0n || reserveOut === 0n) return;
+
+        const rate = (Number(reserveOut) / Number(reserveIn)) * (10000 - pool.dex.feeBps) / 10000;
+        const key = tokenIn.toLowerCase();
+        if (!edges.has(key)) edges.set(key, []);
+        edges.get(key)!.push({ pool, tokenIn, tokenOut: otherToken(pool, tokenIn), weight: -Math.log(rate) });
+    };
+
+    for (const pool of pools) {
+        addEdge(pool, pool.token0);
+        addEdge(pool, pool.token1);
+    }
+    return edges;
+}
+
+/**
+ * Key identifying a cycle whatever token it is entered from: its pools in trading order,
+ * rotated to start at the lowest address. The two directions of a cycle keep distinct keys.
+ */
+function rotationKey(hops: SwapHop[]): string {
+    const pools = hops.map(h => h.pool.address.toLowerCase());
+    let start = 0;
+    for (let i = 1; i < pools.length; i++) {
+        if (pools[i] < pools[start]) start = i;
+    }
+    return [...pools.slice(start), ...pools.slice(0, start)].join('>');
+}
+
+/**
+ * Finds cycles through the given start tokens whose marginal round-trip rate beats the
+ * flash-loan fee. Works on log prices: a cycle is profitable when the sum of its edge
+ * weights -ln(rate) is below -ln(1 + fee). Hop counts are small, so an exhaustive
+ * depth-limited search is used and reports every such cycle rather than just one. Only
+ * cycles that split into a buy leg and a sell leg (see splitIntoLegs) are returned, and
+ * each cycle only once, entered from the earliest start token it can be executed from.
+ */
+export function findProfitableCycles(
+    pools: PoolState[],
+    startTokens: string[],
+    minHops: number,
+    maxHops: number,
+    flashLoanFeeBps: number
+): SwapHop[][] {
+    const edges = buildEdges(pools);
+    const threshold = -Math.log(1 + flashLoanFeeBps / 10000);
+    const cycles: SwapHop[][] = [];
+    const seen = new Set<string>();
+
+    for (const startToken of startTokens) {
+        const start = startToken.toLowerCase();
+        const visitedTokens = new Set<string>([start]);
+        const usedPools = new Set<string>();
+        const stack: SwapHop[] = [];
+
+        const search = (token: string, weight: number) => {
+            for (const edge of edges.get(token) ?? []) {
+                const poolKey = edge.pool.address.toLowerCase();
+                if (usedPools.has(poolKey)) continue;
+
+                const next = edge.tokenOut.toLowerCase();
+                const depth = stack.length + 1;
+                const total = weight + edge.weight;
+
+                if (next === start) {
+                    if (depth >= minHops && total < threshold) {
+                        const hops = [...stack, { pool: edge.pool, tokenIn: edge.tokenIn }];
+                        const key = rotationKey(hops);
+                        if (!seen.has(key) && splitIntoLegs(hops)) {
+                            seen.add(key);
+                            cycles.push(hops);
+                        }
+                    }
+                    continue;
+                }
+
+                if (depth >= maxHops || visitedTokens.has(next)) continue;
+
+                visitedTokens.add(next);
+                usedPools.add(poolKey);
+                stack.push({ pool: edge.pool, tokenIn: edge.tokenIn });
+
+                search(next, total);
+
+                stack.pop();
+                usedPools.delete(poolKey);
+                visitedTokens.delete(next);
+            }
+        };
+
+        search(start, 0);
+    }
+    return cycles;
+}
@@ -0,0 +1,116 @@
+// src/events.ts
+
+import { EventEmitter } from 'events';
+
+interface BaseEvent {
+    chain: string;
+    timestamp: number;
+}
+
+export interface OpportunityEvent extends BaseEvent {
+    type: 'opportunity';
+    id: string;
+    buyDex: string;
+    sellDex: string;
+    borrowAmount: string;
+    profitPercent: number;
+    netProfitQuote: string;
+}
+
+export interface SimulationEvent extends BaseEvent {
+    type: 'simulation';
+    ref: string; // Trade id or target tx hash the simulation belongs to
+    success: boolean;
+    gasEstimate?: string;
+    revertReason?: string;
+}
+
+export interface TxSentEvent extends BaseEvent {
+    type: 'tx_sent';
+    tradeId: string;
+    txHash: string;
+    nonce?: number;
+}
+
+export interface TxReceiptEvent extends BaseEvent {
+    type: 'tx_receipt';
+    tradeId: string;
+    txHash: string;
+    status: 'success' | 'failed';
+    blockNumber: number;
+    gasUsed: string;
+}
+
+export interface TxReplacedEvent extends BaseEvent {
+    type: 'tx_replaced';
+    tradeId: string;
+    nonce: number;
+    previousHash: string;
+    txHash: string;
+    kind: 'speedup' | 'cancel';
+}
+
+export interface BundleSentEvent extends BaseEvent {
+    type: 'bundle_sent';
+    bundleHash: string;
+    targetTxHash?: string; // The swap a back-run follows; absent for bundles sent through the API
+    targetBlock: number; // Sent once per block targeted
+    nonces: number[];
+    builders: string[]; // Those that accepted it
+}
+
+export interface BundleResolvedEvent extends BaseEvent {
+    type: 'bundle_resolved';
+    bundleHash: string;
+    targetTxHash?: string;
+    targetBlock: number;
+    included: boolean;
+    resolution: string;
+    includedBy?: string;
+}
+
+export interface NonceResyncEvent extends BaseEvent {
+    type: 'nonce_resync';
+    address: string;
+    previousNonce: number;
+    nonce: number;
+    reason: string;
+}
+
+export type BotEvent =
+    | OpportunityEvent
+    | SimulationEvent
+    | TxSentEvent
+    | TxReceiptEvent
+    | TxReplacedEvent
+    | BundleSentEvent
+    | BundleResolvedEvent
+    | NonceResyncEvent;
+
+export type BotEventType = BotEvent['type'];
+
+export const BOT_EVENT_TYPES: BotEventType[] = [
+    'opportunity', 'simulation', 'tx_sent', 'tx_receipt', 'tx_replaced', 'bundle_sent', 'bundle_resolved', 'nonce_resync'
+];
+
+// Distributes an event type over the union so `publish` accepts any event minus its timestamp
+type WithoutTimestamp<T> = T extends BotEvent ? Omit<T, 'timestamp'> : never;
+
+/**
+ * In-process bus that the bot, executor and nonce manager publish to. Consumers such as
+ * the WebSocket stream subscribe without the producers knowing about them.
+ */
+class BotEventBus {
+    private emitter = new EventEmitter();
+
+    publish(event: WithoutTimestamp<BotEvent>): void {
+        this.emitter.emit('event', { ...event, timestamp: Date.now() } as BotEvent);
+    }
+
+    subscribe(listener: (event: BotEvent) => void): () => void {
+        this.emitter.on('event', listener);
+        return () => this.emitter.off('event', listener);
+    }
+}
+
+export const eventBus = new BotEventBus();
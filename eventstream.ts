@@ -0,0 +1,129 @@
+// src/api/eventstream.ts
+
+import WebSocket, { WebSocketServer } from 'ws';
+import { eventBus, BotEvent, BotEventType, BOT_EVENT_TYPES } from '../events';
+import logger from '../utils/logger';
+
+interface Subscription {
+    chains: Set<string> | null; // null = every chain
+    types: Set<BotEventType> | null; // null = every event type
+}
+
+/**
+ * Pushes bot events to WebSocket clients.
+ *
+ * Clients receive everything until they narrow it down with
+ *   {"type":"subscribe","chains":["Polygon"],"events":["opportunity","tx_receipt"]}
+ * Omitting either list subscribes to all values. Events are sent as {"type":"event","event":{...}}.
+ */
+export class EventStreamServer {
+    private port: number;
+    private wss: WebSocketServer | null = null;
+    private clients: Map<WebSocket, Subscription> = new Map();
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(port: number) {
+        this.port = port;
+    }
+
+    start(): void {
+        this.wss = new WebSocketServer({ port: this.port });
+        this.wss.on('error', (error) => logger.error(`Event stream server error on ws port ${this.port}:`, error));
+
+        this.wss.on('connection', (socket) => {
+            this.clients.set(socket, { chains: null, types: null });
+
+            socket.on('message', (raw) => {
+                // A client's message must never take the process down
+                try {
+                    this.handleMessage(socket, raw.toString());
+                } catch (error: any) {
+                    logger.warn(`Event stream message rejected: ${error.message}`);
+                    this.send(socket, { type: 'error', error: 'Invalid message' });
+                }
+            });
+            socket.on('close', () => this.clients.delete(socket));
+            socket.on('error', () => this.clients.delete(socket));
+
+            this.send(socket, { type: 'welcome', events: BOT_EVENT_TYPES });
+        });
+
+        this.unsubscribe = eventBus.subscribe(event => this.broadcast(event));
+
+        logger.info(`Event stream listening on ws port ${this.port}`);
+    }
+
+    stop(): void {
+        this.unsubscribe?.();
+        for (const socket of this.clients.keys()) {
+            socket.close();
+        }
+        this.clients.clear();
+        this.wss?.close();
+        this.wss = null;
+        logger.info('Event stream stopped');
+    }
+
+    getClientCount(): number {
+        return this.clients.size;
+    }
+
+    private handleMessage(socket: WebSocket, raw: string): void {
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            this.send(socket, { type: 'error', error: 'Messages must be JSON' });
+            return;
+        }
+
+        if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+            this.send(socket, { type: 'error', error: 'Messages must be JSON objects' });
+            return;
+        }
+
+        if (message.type !== 'subscribe') {
+            this.send(socket, { type: 'error', error: `Unknown message type: ${message.type}` });
+            return;
+        }
+
+        for (const field of ['chains', 'events']) {
+            if (message[field] !== undefined && !Array.isArray(message[field])) {
+                this.send(socket, { type: 'error', error: `${field} must be an array` });
+                return;
+            }
+        }
+
+        const unknown = (message.events ?? []).filter((t: unknown) => !BOT_EVENT_TYPES.includes(t as BotEventType));
+        if (unknown.length > 0) {
+            this.send(socket, { type: 'error', error: `Unknown event types: ${unknown.join(', ')}` });
+            return;
+        }
+
+        const subscription: Subscription = {
+            chains: Array.isArray(message.chains) ? new Set(message.chains) : null,
+            types: Array.isArray(message.events) ? new Set(message.events) : null
+        };
+        this.clients.set(socket, subscription);
+
+        this.send(socket, {
+            type: 'subscribed',
+            chains: subscription.chains ? Array.from(subscription.chains) : 'all',
+            events: subscription.types ? Array.from(subscription.types) : 'all'
+        });
+    }
+
+    private broadcast(event: BotEvent): void {
+        for (const [socket, subscription] of this.clients) {
+            if (subscription.chains && !subscription.chains.has(event.chain)) continue;
+            if (subscription.types && !subscription.types.has(event.type)) continue;
+            this.send(socket, { type: 'event', event });
+        }
+    }
+
+    private send(socket: WebSocket, payload: object): void {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(payload));
+        }
+    }
+}
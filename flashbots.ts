@@ -1,19 +1,109 @@
 import { ethers } from 'ethers';
-import { FlashbotsBundleProvider, FlashbotsBundleRawTransaction } from '@flashbots/ethers-provider-bundle';
+import { FlashbotsBundleProvider } from '@flashbots/ethers-provider-bundle';
 import logger from '../utils/logger';
-import { NonceManager } from './nonceManager';
-import { RawMEVOpportunity } from './mempool';
+import { NonceManager } from './noncemanager';
+import { RawMEVOpportunity, decodeRouterSwap } from './mempool';
+import { BackrunStrategy, BackrunPlan } from './backrun';
+import { BundleHistory, BundleRecord, BundleResolution, BundleSimulation, BribeInclusionStats } from './bundlehistory';
+import { BundleBroadcaster, BuilderHealth, loadBuilderRegistry } from './builders';
 import { config } from '../config';
+import { eventBus } from '../events';
+import { TradeLogger, TRADE_BOOK_FILES } from '../utils/tradelogger';
+import { RiskManager, DEFAULT_RISK_LIMITS } from '../riskmanager';
+import { RiskLimits, DEXConfig } from '../types';
+
+// The executor's quote token is ETH, so the loss and notional caps are in ETH. The notional
+// is the flash-loan principal, which a back-run on a large swap easily takes tens of ETH of
+const MEV_RISK_LIMITS: RiskLimits = {
+    ...DEFAULT_RISK_LIMITS,
+    maxGasPerHour: '0.5',
+    maxDailyLossQuote: '0.25',
+    maxNotionalQuote: config.flashbots.maxBorrowEth
+};
+
+// An Aave flash loan around two V2 swaps uses about 300k, and each nested call only gets
+// 63/64 of the gas left, so the limit needs headroom above that
+const BACKRUN_GAS_LIMIT = 500_000n;
+// Share of the net profit paid to the validator as priority fee; MEV_BRIBE_PERCENT overrides,
+// and bundle stats break inclusion down by it
+const BRIBE_PERCENT = BigInt(process.env.MEV_BRIBE_PERCENT || 80);
+const MAX_RECENT_CANDIDATES = 100;
+
+// Blocks a bundle is offered for, the first plus re-targets while it stays valid; MEV_TARGET_BLOCKS overrides
+const TARGET_BLOCKS = Number(process.env.MEV_TARGET_BLOCKS || 3);
+const BLOCK_POLL_MS = 1_000;
+const BLOCK_WAIT_TIMEOUT_MS = 120_000;
+
+const ARBITRAGE_ABI = [
+    'function executeArbitrage(address tokenBorrow, uint256 amountToBorrow, address routerBuy, address routerSell, address[] calldata pathBuy, address[] calldata pathSell) external'
+];
+
+// What a back-run of a given transaction would earn, before anything is signed
+export interface BackrunQuote {
+    targetTxHash: string;
+    tokenBorrow: string;
+    borrowAmount: string;
+    buyDex: string;
+    sellDex: string;
+    expectedProfitEth: string;
+    gasCostEth: string; // At the fee cap, bribe included
+    bribeEth: string;
+    netProfitEth: string; // Kept after gas and bribe
+}
+
+export type BackrunOutcome =
+    | 'no_gap'
+    | 'no_fee_data'
+    | 'below_min_profit'
+    | 'risk_blocked'
+    | 'paper_filled'
+    | 'included'
+    | 'not_included';
+
+// A pending swap the executor evaluated, and what came of it
+export interface BackrunCandidate {
+    targetTxHash: string;
+    router: string;
+    path: string[];
+    amountIn: string; // Raw units of path[0]
+    evaluatedAt: number;
+    outcome: BackrunOutcome;
+    netProfitEth?: string; // Kept after gas and bribe, once priced
+}
+
+type RelayStats = Record<string, unknown> | { error: string } | null;
+
+export interface BundleStats {
+    bundle: BundleRecord | null; // Our record; null for a bundle this executor did not send
+    relay: RelayStats; // flashbots_getBundleStatsV2; null without a target block or in DRY_RUN
+    user: RelayStats; // flashbots_getUserStatsV2 for the relay signer
+    inclusionByBribe: BribeInclusionStats[];
+}
+
+interface BackrunCosts {
+    maxFeePerGas: bigint;
+    priorityFeePerGas: bigint;
+    gasCostWei: bigint;
+    bribeWei: bigint;
+    keptProfitWei: bigint;
+}
 
 export class FlashbotsMEVExecutor {
     private httpProvider: ethers.JsonRpcProvider;
-    private flashbotsProvider!: FlashbotsBundleProvider;
+    private flashbotsProvider!: FlashbotsBundleProvider; // Simulation and relay stats; bundles go out through the broadcaster
+    private broadcaster!: BundleBroadcaster;
     private wallet: ethers.Wallet;
     private relaySigner: ethers.Wallet;
     private nonceManager: NonceManager;
     private chainId!: number;
+    private chainName!: string;
+    private dryRun: boolean;
+    private paperBook: TradeLogger | null;
+    private risk!: RiskManager;
+    private strategy: BackrunStrategy;
+    private history!: BundleHistory;
+    private candidates: BackrunCandidate[] = [];
    
-    private readonly UNISWAP_V2_ROUTER: string;
     private readonly WETH_ADDRESS: string;
     private readonly HELPER_CONTRACT: string;
 
@@ -22,8 +112,9 @@ export class FlashbotsMEVExecutor {
         privateKey: string,
         relaySignerKey: string,
         helperContract: string,
-        uniswapRouter: string,
-        wethAddress: string
+        dexes: DEXConfig[],
+        wethAddress: string,
+        dryRun: boolean = process.env.DRY_RUN === 'true'
     ) {
         this.httpProvider = new ethers.JsonRpcProvider(rpcHttp);
         this.wallet = new ethers.Wallet(privateKey, this.httpProvider);
@@ -31,168 +122,534 @@ export class FlashbotsMEVExecutor {
         this.nonceManager = new NonceManager(this.httpProvider, this.wallet.address);
        
         this.HELPER_CONTRACT = helperContract;
-        this.UNISWAP_V2_ROUTER = uniswapRouter;
         this.WETH_ADDRESS = wethAddress;
+        this.strategy = new BackrunStrategy(this.httpProvider, dexes, wethAddress);
+        this.dryRun = dryRun;
+        this.paperBook = dryRun ? new TradeLogger(TRADE_BOOK_FILES.paper) : null;
 
         logger.info(`Executor wallet: ${this.wallet.address}`);
         logger.info(`Helper contract: ${this.HELPER_CONTRACT}`);
+        if (dryRun) logger.warn('DRY_RUN: bundles are simulated locally and never sent to the relay');
     }
 
     async initialize(): Promise<void> {
-        this.flashbotsProvider = await FlashbotsBundleProvider.create(
-            this.httpProvider,
-            this.relaySigner,
-            config.flashbots.relayUrl,
-            'mainnet'
-        );
-        await this.nonceManager.initialize();
-
         const network = await this.httpProvider.getNetwork();
         this.chainId = Number(network.chainId);
+        this.chainName = network.name;
+
+        // Paper trading never signs, so it needs neither the relay nor nonces
+        if (!this.dryRun) {
+            // By chain id: given a name, the bundle provider reads the id from our provider
+            // as a bigint, which its own network check then rejects
+            this.flashbotsProvider = await FlashbotsBundleProvider.create(
+                this.httpProvider,
+                this.relaySigner,
+                config.flashbots.relayUrl,
+                this.chainId
+            );
+            await this.nonceManager.initialize();
+        }
+
+        this.risk = new RiskManager(`mev-${this.chainName}${this.dryRun ? '-paper' : ''}`, MEV_RISK_LIMITS);
+        this.history = new BundleHistory(`mev-${this.chainName}`);
+        if (!this.dryRun) {
+            this.broadcaster = new BundleBroadcaster(loadBuilderRegistry(this.chainName), this.relaySigner, `mev-${this.chainName}`);
+        }
         logger.info(`Detected chainId: ${this.chainId}`);
        
         logger.info('Flashbots executor initialized');
     }
 
-    async executeSandwich(op: RawMEVOpportunity): Promise<boolean> {
-        const profitEth = parseFloat(op.estimatedProfitEth);
-        if (profitEth < config.flashbots.minProfitEth) {
-            logger.info(`Skipped sandwich: estimated profit ${profitEth} ETH < min ${config.flashbots.minProfitEth} ETH`);
+    /**
+     * Prices a back-run of a transaction that is still in the mempool, for the API. Nothing is
+     * signed and no nonce is reserved.
+     */
+    async createBackrunBundle(targetTxHash: string): Promise<BackrunQuote | null> {
+        const tx = await this.httpProvider.getTransaction(targetTxHash);
+        if (!tx || tx.blockNumber !== null) return null;
+
+        const rawTx: string | null = await this.httpProvider.send('eth_getRawTransactionByHash', [targetTxHash]);
+        const op = decodeRouterSwap(tx, rawTx ?? ethers.Transaction.from(tx).serialized);
+        if (!op) return null;
+
+        const plan = await this.strategy.plan(op);
+        if (!plan) return null;
+
+        const costs = await this.backrunCosts(plan);
+        if (!costs) return null;
+
+        return {
+            targetTxHash,
+            tokenBorrow: plan.tokenBorrow,
+            borrowAmount: ethers.formatEther(plan.borrowAmount),
+            buyDex: plan.buyDex.name,
+            sellDex: plan.sellDex.name,
+            expectedProfitEth: ethers.formatEther(plan.expectedProfitWei),
+            gasCostEth: ethers.formatEther(costs.gasCostWei),
+            bribeEth: ethers.formatEther(costs.bribeWei),
+            netProfitEth: ethers.formatEther(costs.keptProfitWei)
+        };
+    }
+
+    /**
+     * Back-runs a pending swap with a flash-loan arbitrage that closes the price gap it opens
+     * between DEXes. The bundle is [target, ours]: nothing trades ahead of the user.
+     */
+    async executeBackrun(op: RawMEVOpportunity): Promise<boolean> {
+        const plan = await this.strategy.plan(op);
+        if (!plan) {
+            logger.info(`No back-run for ${op.targetTxHash}: it opens no profitable gap`);
+            this.recordCandidate(op, 'no_gap');
+            return false;
+        }
+
+        const costs = await this.backrunCosts(plan);
+        if (!costs) {
+            this.recordCandidate(op, 'no_fee_data');
             return false;
         }
 
-        const [frontNonce, backNonce] = this.nonceManager.getNextNoncePair();
+        // The minimum applies to what we keep, after gas and the bribe
+        const minProfitWei = ethers.parseEther(config.flashbots.minProfitEth.toString());
+        if (costs.keptProfitWei < minProfitWei) {
+            logger.info(`Net profit too low: ${ethers.formatEther(costs.keptProfitWei)} ETH < min ${config.flashbots.minProfitEth} ETH`);
+            this.recordCandidate(op, 'below_min_profit', costs);
+            return false;
+        }
 
-        const feeData = await this.httpProvider.getFeeData();
-        if (!feeData.maxFeePerGas || !feeData.maxPriorityFeePerGas) {
-            logger.error('Could not fetch gas fees');
-            await this.nonceManager.handleBundleFailure();
+        const decision = this.risk.check({
+            notionalQuote: Number(ethers.formatEther(plan.borrowAmount)),
+            balanceWei: await this.httpProvider.getBalance(this.wallet.address)
+        });
+        if (!decision.allowed) {
+            logger.warn(`Back-run blocked by risk manager: ${decision.reason}`);
+            this.recordCandidate(op, 'risk_blocked', costs);
             return false;
         }
 
-        // Determine gas estimates (front, victim, back)
-        const frontGasLimit = 300_000n;
-        const backGasLimit = 350_000n;
-        const victimGasLimit = op.targetTxParsed.gasLimit ?? 200_000n;
+        if (this.dryRun) {
+            this.recordCandidate(op, 'paper_filled', costs);
+            return this.recordPaperBackrun(op, plan, costs);
+        }
 
-        // Calculate net profit after gas cost
-        const maxFee = feeData.maxFeePerGas;
-        const totalGasCostWei =
-            frontGasLimit * maxFee +
-            victimGasLimit * maxFee +
-            backGasLimit * maxFee;
+        // The nonce is only reserved once the bundle is definitely going to be signed, and
+        // handed back if anything fails before the bundle goes out
+        const [nonce] = this.nonceManager.reserve(1);
+        let backTxSigned: string;
+        let targetBlock: number;
+        try {
+            backTxSigned = await this.wallet.signTransaction({
+                to: this.HELPER_CONTRACT,
+                data: this.encodeArbitrage(plan),
+                value: 0n,
+                gasLimit: BACKRUN_GAS_LIMIT,
+                maxFeePerGas: costs.maxFeePerGas,
+                maxPriorityFeePerGas: costs.priorityFeePerGas,
+                nonce,
+                chainId: this.chainId,
+                type: 2
+            });
+            targetBlock = await this.httpProvider.getBlockNumber() + 1;
+        } catch (error) {
+            this.nonceManager.release([nonce]);
+            throw error;
+        }
 
-        const estimatedProfitWei = ethers.parseEther(op.estimatedProfitEth);
-        const netProfitWei = estimatedProfitWei > totalGasCostWei
-            ? estimatedProfitWei - totalGasCostWei
-            : 0n;
+        logger.info(`Sending back-run bundle for block ${targetBlock} with nonce ${nonce}`);
 
-        // Check against minimum NET profit threshold
-        const minProfitWei = ethers.parseEther(config.flashbots.minProfitEth.toString());
-        if (netProfitWei < minProfitWei) {
-            logger.info(`Net profit too low: ${ethers.formatEther(netProfitWei)} ETH < min ${config.flashbots.minProfitEth} ETH`);
-            await this.nonceManager.handleBundleFailure();
+        const record = await this.submitBundle([op.targetTxRaw, backTxSigned], targetBlock, {
+            targetTxHash: op.targetTxHash,
+            nonces: [nonce],
+            bribePercent: Number(BRIBE_PERCENT),
+            coinbasePaymentWei: costs.bribeWei.toString()
+        });
+        this.recordCandidate(op, record.resolution === 'included' ? 'included' : 'not_included', costs);
+
+        if (record.resolution === 'included') {
+            logger.info(`Bundle included!`);
+            this.nonceManager.commit([nonce]);
+            this.risk.recordResult({
+                gasCostWei: costs.gasCostWei,
+                reverted: false,
+                netProfitQuote: Number(ethers.formatEther(costs.keptProfitWei))
+            });
+            return true;
+        }
+
+        if (record.resolution === 'unknown') {
+            // The back-run may be mined; the nonce stays spent until a resync finds it unused
+            logger.warn(`Back-run with nonce ${nonce} has an unknown outcome; keeping the nonce committed`);
+            this.nonceManager.commit([nonce]);
             return false;
         }
+        if (record.resolution === 'simulation_failed') {
+            // Costs nothing through the relay, but a run of them means the strategy is broken
+            this.risk.recordResult({ gasCostWei: 0n, reverted: true, netProfitQuote: 0 });
+        }
+        this.nonceManager.release([nonce]);
+        return false;
+    }
 
-        // Calculate validator bribe (80% of net profit)
-        const bribeAmountWei = netProfitWei * 80n / 100n;
-        const bribePriorityFeePerGas = bribeAmountWei / backGasLimit;
-        const backRunPriorityFee = feeData.maxPriorityFeePerGas + bribePriorityFeePerGas;
-
-        // Build front-run transaction
-        const tradeAmount = ethers.parseEther('0.1');
-        const frontTxSigned = await this.wallet.signTransaction({
-            to: this.UNISWAP_V2_ROUTER,
-            data: this.encodeFrontRunSwap(op.tokenOut, tradeAmount),
-            value: tradeAmount,
-            gasLimit: frontGasLimit,
-            maxFeePerGas: feeData.maxFeePerGas * 12n / 10n,
-            maxPriorityFeePerGas: feeData.maxPriorityFeePerGas * 12n / 10n,
-            nonce: frontNonce,
-            chainId: this.chainId,
-            type: 2
-        });
+    /**
+     * Sends already-signed transactions as a bundle, for the API. Targets `blockNumber`, or
+     * the next block, and resolves to whether the bundle was included.
+     */
+    async executeBundle(request: { transactions: string[]; blockNumber?: number }): Promise<boolean> {
+        if (this.dryRun) {
+            logger.warn('DRY_RUN: bundle not sent to the relay');
+            return false;
+        }
+        if (!Array.isArray(request.transactions) || request.transactions.length === 0) {
+            throw new Error('transactions must be a non-empty array of signed transactions');
+        }
 
-        // Build back-run transaction (with bribe)
-        const backTxSigned = await this.wallet.signTransaction({
-            to: this.HELPER_CONTRACT,
-            data: this.encodeBackRunSwap(op.tokenOut),
-            value: 0n,
-            gasLimit: backGasLimit,
-            maxFeePerGas: feeData.maxFeePerGas,
-            maxPriorityFeePerGas: backRunPriorityFee,
-            nonce: backNonce,
-            chainId: this.chainId,
-            type: 2
+        const targetBlock = request.blockNumber ?? await this.httpProvider.getBlockNumber() + 1;
+        const record = await this.submitBundle(request.transactions, targetBlock, {
+            targetTxHash: undefined,
+            nonces: [],
+            bribePercent: null,
+            coinbasePaymentWei: '0'
         });
+        return record.resolution === 'included';
+    }
+
+    /**
+     * The pending swaps evaluated for a back-run most recently, newest first. Candidates come
+     * from the mempool monitor; nothing is fetched here.
+     */
+    async scanMEVOpportunities(): Promise<BackrunCandidate[]> {
+        return [...this.candidates].reverse();
+    }
 
-        // Prepare bundle transactions
-        const signedBundle: FlashbotsBundleRawTransaction[] = [
-            { signedTransaction: frontTxSigned },
-            { signedTransaction: op.targetTxRaw },
-            { signedTransaction: backTxSigned }
-        ];
+    getBundleHistory(limit?: number): BundleRecord[] {
+        return this.history.list(limit);
+    }
+
+    /**
+     * Sends and inclusions per builder, and whether each is still sent bundles. Empty in DRY_RUN.
+     */
+    getBuilderHealth(): BuilderHealth[] {
+        return this.broadcaster?.getHealth() ?? [];
+    }
 
-        const currentBlock = await this.httpProvider.getBlockNumber();
-        const targetBlock = currentBlock + 1;
+    /**
+     * What we recorded about a bundle, the relay's view of it and of our signer, and the
+     * inclusion rate of all our bundles by bribe percentage. The relay needs a target block;
+     * unless given, it is the block that included the bundle, or else the last one targeted.
+     */
+    async getBundleStats(bundleHash: string, blockNumber?: number): Promise<BundleStats> {
+        const bundle = this.history.find(bundleHash) ?? null;
+        const targetBlock = blockNumber ?? bundle?.includedBlock ?? bundle?.lastTargetBlock;
 
-        logger.info(`Sending bundle for block ${targetBlock} with nonces [${frontNonce}, ${backNonce}]`);
+        let relay: RelayStats = null;
+        let user: RelayStats = null;
+        if (!this.dryRun) {
+            if (targetBlock !== undefined) {
+                relay = await this.relayStats('flashbots_getBundleStatsV2', [{ bundleHash, blockNumber: ethers.toQuantity(targetBlock) }]);
+            }
+            const currentBlock = await this.httpProvider.getBlockNumber();
+            user = await this.relayStats('flashbots_getUserStatsV2', [{ blockNumber: ethers.toQuantity(currentBlock) }]);
+        }
+
+        return { bundle, relay, user, inclusionByBribe: this.history.inclusionByBribe() };
+    }
+
+    /**
+     * Simulates a bundle on the relay, then sends it to every active builder for `targetBlock`
+     * and, while it stays valid, for each following block up to TARGET_BLOCKS in all. Each
+     * step is recorded in the bundle history. Never throws; the record says how far it got.
+     */
+    private async submitBundle(
+        signedTransactions: string[],
+        targetBlock: number,
+        details: Pick<BundleRecord, 'targetTxHash' | 'nonces' | 'bribePercent' | 'coinbasePaymentWei'>
+    ): Promise<BundleRecord> {
+        const record = this.history.add({
+            bundleHash: null,
+            chain: this.chainName,
+            ...details,
+            targetBlock,
+            lastTargetBlock: targetBlock,
+            builders: [],
+            submittedAt: Date.now(),
+            resolution: 'pending'
+        });
+        const acceptedBy = new Set<string>();
 
         try {
-            const bundle = await this.flashbotsProvider.sendRawBundle(signedBundle, targetBlock);
+            const simulation = await this.simulateBundle(signedTransactions, targetBlock);
+            this.history.update(record, {
+                simulation,
+                coinbasePaymentWei: simulation.coinbaseDiffWei ?? record.coinbasePaymentWei
+            });
+            eventBus.publish({
+                type: 'simulation',
+                chain: this.chainName,
+                ref: details.targetTxHash ?? ethers.keccak256(signedTransactions[0]),
+                success: simulation.success,
+                gasEstimate: simulation.gasUsed?.toString(),
+                revertReason: simulation.error
+            });
+            if (!simulation.success) {
+                logger.warn(`Bundle simulation error: ${simulation.error}`);
+                this.history.update(record, { resolution: 'simulation_failed', resolvedAt: Date.now() });
+                return record;
+            }
 
-            const sim = await bundle.simulate();
-            if ('error' in sim) {
-                logger.warn(`Bundle simulation error: ${sim.error.message}`);
-                await this.nonceManager.handleBundleFailure();
-                return false;
+            let resolution: BundleResolution = 'block_passed';
+            let landedIn: ethers.Block | undefined;
+            for (let block = targetBlock; block < targetBlock + TARGET_BLOCKS; block++) {
+                const submissions = await this.broadcaster.broadcast(signedTransactions, block);
+                const accepted = submissions.filter(submission => !submission.error);
+                if (accepted.length === 0) {
+                    const reasons = submissions.map(s => `${s.builder}: ${s.error}`).join('; ') || 'no active builders';
+                    logger.warn(`No builder accepted the bundle for block ${block}: ${reasons}`);
+                } else {
+                    accepted.forEach(submission => acceptedBy.add(submission.builder));
+                    this.history.update(record, {
+                        bundleHash: record.bundleHash ?? accepted.find(s => s.bundleHash)?.bundleHash ?? bundleHashOf(signedTransactions),
+                        builders: [...acceptedBy],
+                        lastTargetBlock: block
+                    });
+                    eventBus.publish({
+                        type: 'bundle_sent',
+                        chain: this.chainName,
+                        bundleHash: record.bundleHash!,
+                        targetTxHash: details.targetTxHash,
+                        targetBlock: block,
+                        nonces: details.nonces,
+                        builders: accepted.map(submission => submission.builder)
+                    });
+                }
+
+                await this.waitForBlock(block);
+                const outcome = await this.bundleOutcome(signedTransactions);
+                if (outcome.landedIn) {
+                    resolution = 'included';
+                    landedIn = outcome.landedIn;
+                    break;
+                }
+                if (outcome.invalid) {
+                    resolution = 'nonce_too_high';
+                    break;
+                }
             }
+            if (acceptedBy.size === 0 && resolution !== 'included') resolution = 'submission_failed';
 
-            const res = await bundle.wait();
-            if (res === 0) {
-                logger.info(`Bundle included!`);
-                this.nonceManager.confirmBundle(frontNonce, backNonce);
-                return true;
-            } else {
-                logger.warn(`Bundle not included, resolution code: ${res}`);
-                await this.nonceManager.handleBundleFailure();
-                return false;
+            const includedBy = this.broadcaster.recordOutcome([...acceptedBy], landedIn?.miner);
+            this.history.update(record, {
+                resolution,
+                resolvedAt: Date.now(),
+                includedBlock: landedIn?.number,
+                includedBy
+            });
+            if (record.bundleHash) {
+                eventBus.publish({
+                    type: 'bundle_resolved',
+                    chain: this.chainName,
+                    bundleHash: record.bundleHash,
+                    targetTxHash: details.targetTxHash,
+                    targetBlock: record.lastTargetBlock,
+                    included: resolution === 'included',
+                    resolution,
+                    includedBy
+                });
+            }
+            if (resolution !== 'included') {
+                logger.warn(`Bundle not included after blocks ${targetBlock}-${record.lastTargetBlock}: ${resolution}`);
             }
+            return record;
         } catch (e) {
-            logger.error('Bundle submission failed:', e);
-            await this.nonceManager.handleBundleFailure();
-            return false;
+            // Once a builder has the bundle it may still land, whatever happened here
+            const resolution: BundleResolution = acceptedBy.size > 0 ? 'unknown' : 'submission_failed';
+            logger.error(`Bundle submission failed (${resolution}):`, e);
+            this.broadcaster.recordOutcome([...acceptedBy]);
+            this.history.update(record, { resolution, resolvedAt: Date.now() });
+            return record;
         }
     }
 
-    private encodeFrontRunSwap(tokenOut: string, amountIn: bigint): string {
-        const iface = new ethers.Interface([
-          'function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline)'
-        ]);
-        const path = [this.WETH_ADDRESS, tokenOut];
-        const deadline = Math.floor(Date.now() / 1000) + 300;
-
-        return iface.encodeFunctionData('swapExactETHForTokens', [
-          0,
-          path,
-          this.HELPER_CONTRACT,
-          deadline
-        ]);
+    private async simulateBundle(signedTransactions: string[], targetBlock: number): Promise<BundleSimulation> {
+        const sim = await this.flashbotsProvider.simulate(signedTransactions, targetBlock, targetBlock - 1);
+        if ('error' in sim) return { success: false, error: sim.error.message };
+
+        const revert = sim.firstRevert && 'error' in sim.firstRevert ? sim.firstRevert : undefined;
+        return {
+            success: !revert,
+            gasUsed: sim.totalGasUsed,
+            coinbaseDiffWei: sim.coinbaseDiff.toString(),
+            error: revert ? `${revert.error}: ${revert.revert}` : undefined
+        };
     }
 
-    private encodeBackRunSwap(tokenOut: string): string {
-        const iface = new ethers.Interface([
-          'function executeBackRunSwap(address token, address profitRecipient)'
-        ]);
-        return iface.encodeFunctionData('executeBackRunSwap', [
-          tokenOut,
-          this.wallet.address
+    private async waitForBlock(blockNumber: number): Promise<void> {
+        const deadline = Date.now() + BLOCK_WAIT_TIMEOUT_MS;
+        while (await this.httpProvider.getBlockNumber() < blockNumber) {
+            if (Date.now() > deadline) throw new Error(`Block ${blockNumber} not mined within ${BLOCK_WAIT_TIMEOUT_MS / 1000}s`);
+            await new Promise(resolve => setTimeout(resolve, BLOCK_POLL_MS));
+        }
+    }
+
+    /**
+     * Where a bundle stands after a target block: landed when all its transactions were mined
+     * in one block; invalid when some were mined without the rest, or another transaction
+     * took one of their nonces. Otherwise it can still go in a later block.
+     */
+    private async bundleOutcome(signedTransactions: string[]): Promise<{ landedIn?: ethers.Block; invalid: boolean }> {
+        const transactions = signedTransactions.map(raw => ethers.Transaction.from(raw));
+        const receipts = await Promise.all(transactions.map(tx => this.httpProvider.getTransactionReceipt(tx.hash!)));
+        const minedIn = new Set(receipts.filter(receipt => receipt !== null).map(receipt => receipt!.blockNumber));
+
+        if (minedIn.size === 1 && receipts.every(receipt => receipt !== null)) {
+            const block = await this.httpProvider.getBlock([...minedIn][0]);
+            return { landedIn: block ?? undefined, invalid: false };
+        }
+        if (minedIn.size > 0) return { invalid: true };
+
+        const nonces = await Promise.all(transactions.map(tx => this.httpProvider.getTransactionCount(tx.from!, 'latest')));
+        return { invalid: transactions.some((tx, i) => nonces[i] > tx.nonce) };
+    }
+
+    /**
+     * A signed call to the relay, for the stats methods this version of the bundle provider
+     * does not wrap. Errors are returned rather than thrown so one failing call does not hide
+     * the rest of the stats.
+     */
+    private async relayStats(method: string, params: unknown[]): Promise<RelayStats> {
+        try {
+            const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+            const signature = await this.relaySigner.signMessage(ethers.id(body));
+
+            const request = new ethers.FetchRequest(config.flashbots.relayUrl);
+            request.body = body;
+            request.setHeader('Content-Type', 'application/json');
+            request.setHeader('X-Flashbots-Signature', `${this.relaySigner.address}:${signature}`);
+
+            const response = (await request.send()).bodyJson;
+            if (response.error) return { error: response.error.message };
+            return response.result;
+        } catch (error: any) {
+            return { error: error.message };
+        }
+    }
+
+    private recordCandidate(op: RawMEVOpportunity, outcome: BackrunOutcome, costs?: BackrunCosts): void {
+        this.candidates.push({
+            targetTxHash: op.targetTxHash,
+            router: op.router,
+            path: op.path,
+            amountIn: op.amountIn.toString(),
+            evaluatedAt: Date.now(),
+            outcome,
+            netProfitEth: costs ? ethers.formatEther(costs.keptProfitWei) : undefined
+        });
+        if (this.candidates.length > MAX_RECENT_CANDIDATES) this.candidates.shift();
+    }
+
+    /**
+     * Gas for our transaction only (the target pays its own) and the validator bribe, which
+     * is paid as extra priority fee on the back-run. The fee cap rises by the same amount per
+     * gas, or the priority fee could exceed it and builders would drop the transaction, so
+     * gasCostWei, at that cap, includes the bribe.
+     */
+    private async backrunCosts(plan: BackrunPlan): Promise<BackrunCosts | null> {
+        const feeData = await this.httpProvider.getFeeData();
+        if (!feeData.maxFeePerGas || !feeData.maxPriorityFeePerGas) {
+            logger.error('Could not fetch gas fees');
+            return null;
+        }
+
+        const baseGasCostWei = BACKRUN_GAS_LIMIT * feeData.maxFeePerGas;
+        const netProfitWei = plan.expectedProfitWei > baseGasCostWei ? plan.expectedProfitWei - baseGasCostWei : 0n;
+        const bribePerGas = netProfitWei * BRIBE_PERCENT / 100n / BACKRUN_GAS_LIMIT;
+        const bribeWei = bribePerGas * BACKRUN_GAS_LIMIT;
+        const maxFeePerGas = feeData.maxFeePerGas + bribePerGas;
+
+        return {
+            maxFeePerGas,
+            priorityFeePerGas: feeData.maxPriorityFeePerGas + bribePerGas,
+            gasCostWei: BACKRUN_GAS_LIMIT * maxFeePerGas,
+            bribeWei,
+            keptProfitWei: netProfitWei - bribeWei
+        };
+    }
+
+    /**
+     * DRY_RUN counterpart of sending the bundle. The back-run only works on the state the
+     * target leaves behind, which an eth_call against the pending block does not have, so the
+     * plan computed from the replayed reserves is booked as is, less gas and bribe, in the
+     * paper book.
+     */
+    private async recordPaperBackrun(op: RawMEVOpportunity, plan: BackrunPlan, costs: BackrunCosts): Promise<boolean> {
+        const blockNumber = await this.httpProvider.getBlockNumber();
+        const tokenB = plan.pathBuy[1];
+        this.paperBook!.logTrade({
+            id: `PAPER-BACKRUN-${this.chainName}-${op.targetTxHash}`,
+            timestamp: Date.now(),
+            blockNumber: blockNumber + 1,
+            status: 'success',
+            chain: this.chainName,
+            pair: `WETH/${tokenB}`,
+            tokenA: { symbol: 'WETH', address: this.WETH_ADDRESS, amount: ethers.formatEther(plan.borrowAmount) },
+            tokenB: { symbol: tokenB, address: tokenB, amount: '0' },
+            buyDex: plan.buyDex.name,
+            sellDex: plan.sellDex.name,
+            borrowAmount: ethers.formatEther(plan.borrowAmount),
+            expectedProfit: ethers.formatEther(plan.expectedProfitWei),
+            actualProfit: ethers.formatEther(plan.expectedProfitWei),
+            profitQuote: ethers.formatEther(plan.expectedProfitWei),
+            netProfitQuote: ethers.formatEther(costs.keptProfitWei),
+            quoteSymbol: 'ETH',
+            gasCost: ethers.formatEther(costs.gasCostWei),
+            gasToken: 'ETH'
+        });
+
+        this.risk.recordResult({
+            gasCostWei: costs.gasCostWei,
+            reverted: false,
+            netProfitQuote: Number(ethers.formatEther(costs.keptProfitWei))
+        });
+
+        logger.info(`Paper back-run filled: kept ${ethers.formatEther(costs.keptProfitWei)} ETH after bribe`);
+        return true;
+    }
+
+    private encodeArbitrage(plan: BackrunPlan): string {
+        return new ethers.Interface(ARBITRAGE_ABI).encodeFunctionData('executeArbitrage', [
+            plan.tokenBorrow,
+            plan.borrowAmount,
+            plan.buyDex.router,
+            plan.sellDex.router,
+            plan.pathBuy,
+            plan.pathSell
         ]);
     }
 
+    /**
+     * Call between bundles: reconciles nonces with the node and fills any gap with a
+     * zero-value self-transfer so later transactions are not stuck behind it.
+     */
     async periodicResync(): Promise<void> {
-        // Assuming NonceManager has this method for safety/resync
-        // await this.nonceManager.resyncIfNeeded();
+        if (this.dryRun) return;
+
+        await this.nonceManager.resyncIfNeeded();
+        await this.nonceManager.repairGaps(async (nonce) => {
+            const feeData = await this.httpProvider.getFeeData();
+            await this.wallet.sendTransaction({
+                to: this.wallet.address,
+                value: 0n,
+                gasLimit: 21_000n,
+                maxFeePerGas: feeData.maxFeePerGas,
+                maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+                nonce,
+                chainId: this.chainId,
+                type: 2
+            });
+        });
     }
 }
+
+// The relay's bundle hash, for builders that do not return one
+function bundleHashOf(signedTransactions: string[]): string {
+    return ethers.keccak256(ethers.concat(signedTransactions.map(raw => ethers.keccak256(raw))));
+}
@@ -0,0 +1,323 @@
+// src/flashloan.ts
+
+import { ethers } from 'ethers';
+import { PoolSource, PoolState } from './poolstate';
+import { SwapHop } from './sizing';
+import { splitIntoLegs, hopsToPath } from './cycles';
+import { ChainConfig, FlashLoanKind, FlashLoanProviderConfig, TokenConfig } from './types';
+
+// Entry points of FlashLoanArbitrage.sol. Deployments that predate it only have executeArbitrage,
+// so on those only Aave loans over two V2 legs can execute; see chains.ts
+const ARBITRAGE_ABI = [
+    'function executeArbitrage(address tokenBorrow, uint256 amountToBorrow, address routerBuy, address routerSell, address[] calldata pathBuy, address[] calldata pathSell) external',
+    'function executeArbitrageRoute(address tokenBorrow, uint256 amountToBorrow, bytes calldata route) external',
+    'function executeBalancerFlashLoan(address vault, address tokenBorrow, uint256 amountToBorrow, bytes calldata route) external',
+    'function executeFlashSwap(address pair, address tokenBorrow, uint256 amountToBorrow, uint16 pairFeeBps, bytes calldata route) external'
+];
+const AAVE_POOL_ABI = [
+    'function getReserveData(address asset) external view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+];
+const ERC20_BALANCE_ABI = ['function balanceOf(address account) external view returns (uint256)'];
+
+// What the arbitrage contract needs to run the route once it holds the borrowed tokens: a
+// buy and a sell leg, each (dex kind, router, path). A V2 path is an abi-encoded address[];
+// a V3 path is the router's packed (token, fee, token, ...) form.
+const LEG_TYPE = 'tuple(uint8 kind, address router, bytes path)';
+const DEX_KIND_IDS = { v2: 0, v3: 1 };
+
+// The contract's built-in Aave loan, for chains that list no providers
+export const DEFAULT_FLASH_LOAN_PROVIDERS: FlashLoanProviderConfig[] = [{ kind: 'aave', name: 'Aave', feeBps: 9 }];
+
+export interface FlashLoanQuote {
+    provider: FlashLoanProvider;
+    feeBps: number; // Charged on the borrowed amount, rounded up to whole basis points
+    available: bigint | null; // Most the lender can lend right now; null when it cannot be read
+    lender: string; // Address the tokens come from
+    pool?: PoolState; // Pair a flash swap borrows from
+}
+
+export interface FlashLoanRequest {
+    token: string;
+    amount: bigint;
+    hops: SwapHop[]; // The route, split into its buy and sell legs when encoded
+}
+
+export interface FlashLoanTx {
+    to: string;
+    data: string;
+}
+
+/**
+ * A source of flash loans. `quote` reports the fee and the liquidity available for a token,
+ * or null if the lender does not lend it; `route` is the pools the trade swaps through, which
+ * a lender that is itself a pool must not be. `encode` builds the transaction that takes the
+ * loan and hands it to the arbitrage contract.
+ */
+export interface FlashLoanProvider {
+    readonly name: string;
+    readonly kind: FlashLoanKind;
+    quote(token: TokenConfig, route: PoolState[]): Promise<FlashLoanQuote | null>;
+    encode(quote: FlashLoanQuote, request: FlashLoanRequest): FlashLoanTx;
+}
+
+function encodeLeg(hops: SwapHop[]) {
+    const dex = hops[0].pool.dex;
+    const tokens = hopsToPath(hops);
+
+    if (dex.kind === 'v2') {
+        return { kind: DEX_KIND_IDS.v2, router: dex.router, path: ethers.utils.defaultAbiCoder.encode(['address[]'], [tokens]) };
+    }
+
+    // Fee tiers are in hundredths of a basis point on chain
+    const types = tokens.flatMap((_, i) => i === 0 ? ['address'] : ['uint24', 'address']);
+    const values = tokens.flatMap((token, i) => i === 0 ? [token] : [hops[i - 1].pool.dex.feeBps * 100, token]);
+    return { kind: DEX_KIND_IDS.v3, router: dex.router, path: ethers.utils.solidityPack(types, values) };
+}
+
+function encodeRouteData(request: FlashLoanRequest): string {
+    const legs = splitIntoLegs(request.hops);
+    if (!legs) throw new Error('Route does not split into a buy and a sell leg');
+
+    return ethers.utils.defaultAbiCoder.encode([LEG_TYPE, LEG_TYPE], [encodeLeg(legs.buyHops), encodeLeg(legs.sellHops)]);
+}
+
+async function balanceOf(provider: ethers.providers.Provider, token: string, holder: string): Promise<bigint> {
+    const erc20 = new ethers.Contract(token, ERC20_BALANCE_ABI, provider);
+    return (await erc20.balanceOf(holder) as ethers.BigNumber).toBigInt();
+}
+
+/**
+ * Lender liquidity per token, read at most once per block. The block is the newest one the
+ * route's reserves were read at, so a scan costs no extra RPC round-trip beyond the read
+ * itself, and a failed read is retried on the next block.
+ */
+class LiquidityCache {
+    private entries: Map<string, { block: number; liquidity: Promise<bigint | null> }> = new Map();
+    private read: (token: string) => Promise<bigint | null>;
+
+    constructor(read: (token: string) => Promise<bigint | null>) {
+        this.read = read;
+    }
+
+    get(token: string, route: PoolState[]): Promise<bigint | null> {
+        const key = token.toLowerCase();
+        const block = Math.max(0, ...route.map(pool => pool.blockNumber));
+        const cached = this.entries.get(key);
+        if (cached && cached.block >= block) return cached.liquidity;
+
+        const liquidity = this.read(token);
+        this.entries.set(key, { block, liquidity });
+        liquidity.catch(() => {
+            if (this.entries.get(key)?.liquidity === liquidity) this.entries.delete(key);
+        });
+        return liquidity;
+    }
+}
+
+/**
+ * Aave-style pool. The arbitrage contract takes the loan itself: all-V2 routes go through
+ * `executeArbitrage`, which is how every trade was funded before lenders were configurable,
+ * and routes with a V3 leg through `executeArbitrageRoute`. The liquidity is what the
+ * asset's aToken holds; without a pool address, or when it cannot be read, it is unknown.
+ * A token Aave does not list has no liquidity.
+ */
+export class AaveFlashLoanProvider implements FlashLoanProvider {
+    readonly kind = 'aave';
+    readonly name: string;
+    private feeBps: number;
+    private poolAddress?: string;
+    private contractAddress: string;
+    private provider: ethers.providers.Provider | null;
+    private liquidity: LiquidityCache;
+
+    constructor(config: FlashLoanProviderConfig, contractAddress: string, provider: ethers.providers.Provider | null) {
+        this.name = config.name;
+        this.feeBps = config.feeBps ?? 9;
+        this.poolAddress = config.address;
+        this.contractAddress = contractAddress;
+        this.provider = provider;
+        this.liquidity = new LiquidityCache(token => this.readLiquidity(token));
+    }
+
+    async quote(token: TokenConfig, route: PoolState[]): Promise<FlashLoanQuote | null> {
+        const lender = this.poolAddress ?? this.contractAddress;
+        if (!this.poolAddress || !this.provider) {
+            return { provider: this, feeBps: this.feeBps, available: null, lender };
+        }
+
+        let available: bigint | null;
+        try {
+            available = await this.liquidity.get(token.address, route);
+        } catch {
+            available = null;
+        }
+        if (available === 0n) return null;
+
+        return { provider: this, feeBps: this.feeBps, available, lender };
+    }
+
+    encode(_quote: FlashLoanQuote, request: FlashLoanRequest): FlashLoanTx {
+        const iface = new ethers.utils.Interface(ARBITRAGE_ABI);
+        const legs = splitIntoLegs(request.hops);
+        if (!legs) throw new Error('Route does not split into a buy and a sell leg');
+
+        if (request.hops.some(hop => hop.pool.dex.kind === 'v3')) {
+            return {
+                to: this.contractAddress,
+                data: iface.encodeFunctionData('executeArbitrageRoute', [request.token, request.amount, encodeRouteData(request)])
+            };
+        }
+
+        return {
+            to: this.contractAddress,
+            data: iface.encodeFunctionData('executeArbitrage', [
+                request.token,
+                request.amount,
+                legs.buyHops[0].pool.dex.router,
+                legs.sellHops[0].pool.dex.router,
+                hopsToPath(legs.buyHops),
+                hopsToPath(legs.sellHops)
+            ])
+        };
+    }
+
+    // 0 when Aave does not list the token
+    private async readLiquidity(token: string): Promise<bigint> {
+        const pool = new ethers.Contract(this.poolAddress!, AAVE_POOL_ABI, this.provider!);
+        const reserve = await pool.getReserveData(token);
+        if (reserve.aTokenAddress === ethers.constants.AddressZero) return 0n;
+        return balanceOf(this.provider!, token, reserve.aTokenAddress);
+    }
+}
+
+/**
+ * Balancer-style vault. The contract borrows through `executeBalancerFlashLoan` and the vault
+ * calls back its `receiveFlashLoan` with the route as user data; it can lend whatever it
+ * holds of the token, unknown when that cannot be read.
+ */
+export class BalancerFlashLoanProvider implements FlashLoanProvider {
+    readonly kind = 'balancer';
+    readonly name: string;
+    private feeBps: number;
+    private vaultAddress: string;
+    private contractAddress: string;
+    private provider: ethers.providers.Provider | null;
+    private liquidity: LiquidityCache;
+
+    constructor(config: FlashLoanProviderConfig, contractAddress: string, provider: ethers.providers.Provider | null) {
+        this.name = config.name;
+        this.feeBps = config.feeBps ?? 0;
+        this.vaultAddress = config.address!;
+        this.contractAddress = contractAddress;
+        this.provider = provider;
+        this.liquidity = new LiquidityCache(token => balanceOf(this.provider!, token, this.vaultAddress));
+    }
+
+    async quote(token: TokenConfig, route: PoolState[]): Promise<FlashLoanQuote | null> {
+        let available: bigint | null = null;
+        if (this.provider) {
+            try {
+                available = await this.liquidity.get(token.address, route);
+            } catch {
+                available = null;
+            }
+        }
+        if (available === 0n) return null;
+
+        return { provider: this, feeBps: this.feeBps, available, lender: this.vaultAddress };
+    }
+
+    encode(_quote: FlashLoanQuote, request: FlashLoanRequest): FlashLoanTx {
+        const iface = new ethers.utils.Interface(ARBITRAGE_ABI);
+        return {
+            to: this.contractAddress,
+            data: iface.encodeFunctionData('executeBalancerFlashLoan', [
+                this.vaultAddress,
+                request.token,
+                request.amount,
+                encodeRouteData(request)
+            ])
+        };
+    }
+}
+
+/**
+ * UniswapV2-style flash swap: the contract takes the tokens out of a pair through
+ * `executeFlashSwap` and repays them with the pair's swap fee inside its `uniswapV2Call`. Borrows from the deepest pair of the token
+ * on the chain's DEXes that the route does not trade through, since a pair is locked while
+ * it lends.
+ */
+export class UniswapV2FlashLoanProvider implements FlashLoanProvider {
+    readonly kind = 'uniswapV2';
+    readonly name: string;
+    private config: ChainConfig;
+    private pools: PoolSource;
+
+    constructor(providerConfig: FlashLoanProviderConfig, config: ChainConfig, pools: PoolSource) {
+        this.name = providerConfig.name;
+        this.config = config;
+        this.pools = pools;
+    }
+
+    async quote(token: TokenConfig, route: PoolState[]): Promise<FlashLoanQuote | null> {
+        const routePools = new Set(route.map(pool => pool.address.toLowerCase()));
+        let best: { pool: PoolState; reserve: bigint } | null = null;
+
+        // Flash swaps are a V2 pair feature
+        for (const dex of this.config.dexes.filter(d => d.kind === 'v2')) {
+            for (const other of this.config.tokens) {
+                if (other.address.toLowerCase() === token.address.toLowerCase()) continue;
+
+                const pool = await this.pools.getPool(dex, token, other);
+                if (!pool || routePools.has(pool.address.toLowerCase())) continue;
+
+                const reserve = pool.token0.toLowerCase() === token.address.toLowerCase() ? pool.reserve0 : pool.reserve1;
+                if (!best || reserve > best.reserve) best = { pool, reserve };
+            }
+        }
+        if (!best || best.reserve <= 1n) return null;
+
+        // Repaying `amount` after swapping out `amount` costs fee / (1 - fee) of it
+        const feeBps = best.pool.dex.feeBps;
+        return {
+            provider: this,
+            feeBps: Math.ceil(feeBps * 10000 / (10000 - feeBps)),
+            available: best.reserve - 1n,
+            lender: best.pool.address,
+            pool: best.pool
+        };
+    }
+
+    encode(quote: FlashLoanQuote, request: FlashLoanRequest): FlashLoanTx {
+        const pool = quote.pool!;
+        const iface = new ethers.utils.Interface(ARBITRAGE_ABI);
+        return {
+            to: this.config.contractAddress,
+            data: iface.encodeFunctionData('executeFlashSwap', [
+                pool.address,
+                request.token,
+                request.amount,
+                pool.dex.feeBps,
+                encodeRouteData(request)
+            ])
+        };
+    }
+}
+
+/**
+ * The chain's configured lenders. Without an RPC provider (the backtest) Aave and Balancer liquidity is unknown and
+ * assumed sufficient; flash swaps read reserves from `pools` either way.
+ */
+export function createFlashLoanProviders(
+    config: ChainConfig,
+    pools: PoolSource,
+    provider: ethers.providers.Provider | null = null
+): FlashLoanProvider[] {
+    return config.flashLoanProviders.map(entry => {
+        switch (entry.kind) {
+            case 'aave': return new AaveFlashLoanProvider(entry, config.contractAddress, provider);
+            case 'balancer': return new BalancerFlashLoanProvider(entry, config.contractAddress, provider);
+            case 'uniswapV2': return new UniswapV2FlashLoanProvider(entry, config, pools);
+        }
+    });
+}
@@ -0,0 +1,14 @@
+// jest.config.js
+
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/test'],
+    testMatch: ['**/*.test.ts'],
+    // Type-checking is `npm run build`'s job; tests only transpile
+    transform: { '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }] },
+    resolver: '<rootDir>/test/resolver.js',
+    setupFilesAfterEnv: ['<rootDir>/test/setup.ts'],
+    // The local-chain suites compile contracts and wait for blocks
+    testTimeout: 120_000,
+};
@@ -0,0 +1,43 @@
+// src/latency.ts
+
+const WINDOW_SIZE = 200;
+
+export interface LatencyStats {
+    count: number; // Samples recorded since start
+    lastMs?: number;
+    // Over the most recent WINDOW_SIZE samples
+    avgMs?: number;
+    p50Ms?: number;
+    p95Ms?: number;
+    maxMs?: number;
+}
+
+/**
+ * Rolling latency figures for one stage of the pipeline. Only the last WINDOW_SIZE samples
+ * are kept, so the percentiles follow current conditions rather than the whole run.
+ */
+export class LatencyTracker {
+    private samples: number[] = [];
+    private count = 0;
+
+    record(ms: number): void {
+        this.samples.push(ms);
+        if (this.samples.length > WINDOW_SIZE) this.samples.shift();
+        this.count++;
+    }
+
+    getStats(): LatencyStats {
+        if (this.samples.length === 0) return { count: 0 };
+
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p / 100))];
+        return {
+            count: this.count,
+            lastMs: this.samples[this.samples.length - 1],
+            avgMs: Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length),
+            p50Ms: percentile(50),
+            p95Ms: percentile(95),
+            maxMs: sorted[sorted.length - 1]
+        };
+    }
+}
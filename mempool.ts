@@ -1,30 +1,87 @@
 import { ethers } from 'ethers';
 import logger from '../utils/logger';
+import { metrics } from '../metrics';
 
+// A pending router swap worth back-running. Nothing is traded ahead of it: the bundle is
+// [target, our arbitrage], so the user gets exactly the execution they signed for.
 export interface RawMEVOpportunity {
-    type: 'sandwich';
+    type: 'backrun';
     targetTxHash: string;
     targetTxRaw: string; // CRITICAL: Raw signed transaction hex
     targetTxParsed: ethers.TransactionResponse;
+    router: string;
+    path: string[];
     tokenIn: string;
     tokenOut: string;
     amountIn: bigint;
-    estimatedProfitEth: string;
 }
 
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+
+const ROUTER_SWAP_ABI = [
+    'function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline)',
+    'function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline)',
+    'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline)'
+];
+
+/**
+ * Decodes an exact-input Uniswap V2 router swap. Returns null for anything else.
+ */
+export function decodeRouterSwap(tx: ethers.TransactionResponse, rawTx: string): RawMEVOpportunity | null {
+    if (!tx.to) return null;
+
+    let decoded;
+    try {
+        decoded = new ethers.Interface(ROUTER_SWAP_ABI).parseTransaction({ data: tx.data, value: tx.value });
+    } catch {
+        return null;
+    }
+    if (!decoded) return null;
+
+    const path = decoded.args.path as string[];
+    if (path.length < 2) return null;
+
+    const amountIn: bigint = decoded.name === 'swapExactETHForTokens'
+        ? tx.value || 0n
+        : decoded.args.amountIn as bigint;
+
+    return {
+        type: 'backrun',
+        targetTxHash: tx.hash,
+        targetTxRaw: rawTx,
+        targetTxParsed: tx,
+        router: tx.to,
+        path: [...path],
+        tokenIn: path[0],
+        tokenOut: path[path.length - 1],
+        amountIn
+    };
+}
+
+/**
+ * Watches pending router swaps. When the socket closes it reconnects to the next of the
+ * given URLs, with exponential backoff, and subscribes to pending transactions again.
+ */
 export class MempoolMonitor {
     private provider: ethers.WebSocketProvider;
+    private urls: string[];
+    private current = 0;
+    private attempts = 0;
+    private stopped = false;
+    private callback: ((opportunity: RawMEVOpportunity) => void) | null = null;
     private uniswapV2Router: string;
     private wethAddress: string;
     private minTradeValueEth: number;
 
     constructor(
-        rpcWss: string,
+        rpcWss: string | string[],
         uniswapV2Router: string,
         wethAddress: string,
         minTradeValueEth: number = 0.1
     ) {
-        this.provider = new ethers.WebSocketProvider(rpcWss);
+        this.urls = typeof rpcWss === 'string' ? [rpcWss] : rpcWss;
+        this.provider = this.connect();
         this.uniswapV2Router = uniswapV2Router.toLowerCase();
         this.wethAddress = wethAddress;
         this.minTradeValueEth = minTradeValueEth;
@@ -33,24 +90,64 @@ export class MempoolMonitor {
     async start(callback: (opportunity: RawMEVOpportunity) => void): Promise<void> {
         logger.info(' Starting advanced mempool monitoring...');
 
+        this.callback = callback;
+        this.subscribe();
+
+        logger.info('✓ Mempool monitoring active (with raw transaction support)');
+    }
+
+    private connect(): ethers.WebSocketProvider {
+        const provider = new ethers.WebSocketProvider(this.urls[this.current]);
+        // The underlying socket is a `ws` WebSocket; ethers does not reconnect it
+        const socket = provider.websocket as any;
+        socket.on('open', () => { this.attempts = 0; });
+        socket.on('error', (error: Error) => logger.warn(`Mempool WebSocket error: ${error.message}`));
+        socket.on('close', (code: number) => {
+            if (provider === this.provider) this.reconnect(code);
+        });
+        return provider;
+    }
+
+    private reconnect(code: number): void {
+        if (this.stopped) return;
+
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.attempts, RECONNECT_MAX_DELAY_MS);
+        this.attempts++;
+        this.current = (this.current + 1) % this.urls.length;
+        logger.warn(`Mempool WebSocket closed (${code}), reconnecting in ${delay}ms`);
+        metrics.wsReconnects.inc({ source: 'mempool' });
+
+        setTimeout(() => {
+            if (this.stopped) return;
+            const previous = this.provider;
+            this.provider = this.connect();
+            previous.destroy().catch(() => undefined);
+            if (this.callback) this.subscribe();
+        }, delay);
+    }
+
+    private subscribe(): void {
+        const callback = this.callback!;
+
         this.provider.on('pending', async (txHash: string) => {
             try {
                 const tx = await this.provider.getTransaction(txHash);
-                if (!tx) return;
-
-                const rawTx = await this.getRawTransaction(txHash);
-                if (!rawTx) return;
+                const rawTx = tx && await this.getRawTransaction(txHash);
+                if (!tx || !rawTx) {
+                    metrics.mempoolTransactions.inc({ outcome: 'unavailable' });
+                    return;
+                }
 
                 const opportunity = await this.analyzeTransaction(tx, rawTx);
+                metrics.mempoolTransactions.inc({ outcome: opportunity ? 'opportunity' : 'ignored' });
                 if (opportunity) {
                     callback(opportunity);
                 }
             } catch (error) {
                 // Silently ignore minor mempool errors
+                metrics.mempoolTransactions.inc({ outcome: 'error' });
             }
         });
-
-        logger.info('✓ Mempool monitoring active (with raw transaction support)');
     }
 
     private async getRawTransaction(txHash: string): Promise<string | null> {
@@ -78,58 +175,21 @@ export class MempoolMonitor {
                 return null;
             }
 
-            // Decode transaction data
-            const functionSelector = tx.data.slice(0, 10);
-            const iface = new ethers.Interface([
-                'function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline)',
-                'function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline)',
-                'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline)'
-            ]);
-
-            let decoded;
-            try {
-                decoded = iface.parseTransaction({ data: tx.data, value: tx.value });
-            } catch {
-                return null;
-            }
-
-            if (!decoded) return null;
-
-            const path = decoded.args.path as string[];
-            if (path.length < 2) return null;
+            const swap = decodeRouterSwap(tx, rawTx);
+            if (!swap) return null;
 
             // Check trade size
-            let amountIn: bigint;
-            if (functionSelector === '0x7ff36ab5') { // swapExactETHForTokens
-                amountIn = tx.value || 0n;
-            } else if (functionSelector === '0x18cbafe5' || functionSelector === '0x38ed1739') { // swapExactTokensForETH/Tokens
-                amountIn = decoded.args.amountIn as bigint;
-            } else {
-                return null;
-            }
-
-            const amountInEth = parseFloat(ethers.formatEther(amountIn));
+            const amountInEth = parseFloat(ethers.formatEther(swap.amountIn));
             if (amountInEth < this.minTradeValueEth) return null;
 
-            const estimatedProfitEth = (amountInEth * 0.003).toFixed(6); // Simplified profit estimation
-
-            return {
-                type: 'sandwich',
-                targetTxHash: tx.hash,
-                targetTxRaw: rawTx,
-                targetTxParsed: tx,
-                tokenIn: path[0],
-                tokenOut: path[path.length - 1],
-                amountIn: amountIn,
-                estimatedProfitEth
-            };
-
+            return swap;
         } catch (error) {
             return null;
         }
     }
 
     async stop(): Promise<void> {
+        this.stopped = true;
         await this.provider.destroy();
         logger.info('Mempool monitor stopped');
     }
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { registry } from '../metrics';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Prometheus scrape target for this process
+router.get('/metrics', (req, res) => {
+  try {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(registry.render());
+  } catch (error) {
+    logger.error('Metrics endpoint error:', error);
+    res.status(500).send('Failed to render metrics\n');
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+// src/metrics.ts
+
+import { eventBus } from './events';
+
+type Labels = Record<string, string>;
+
+const LATENCY_BUCKETS_SECONDS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const MAX_LABEL_LENGTH = 80; // Revert reasons and similar free text
+
+function labelKey(labels: Labels): string {
+    return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+    const all = { ...labels, ...extra };
+    const names = Object.keys(all);
+    if (names.length === 0) return '';
+
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `{${names.map(name => `${name}="${escape(all[name])}"`).join(',')}}`;
+}
+
+/**
+ * Free text such as a revert reason as a label value: one line, bounded length.
+ */
+export function textLabel(value: string | undefined): string {
+    if (!value) return 'unknown';
+    const line = value.split('\n')[0].trim();
+    return line.length > MAX_LABEL_LENGTH ? line.slice(0, MAX_LABEL_LENGTH) : line;
+}
+
+abstract class Metric {
+    readonly name: string;
+    readonly help: string;
+    abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    render(): string[] {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+    }
+
+    protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+    readonly type = 'counter';
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    inc(labels: Labels = {}, amount: number = 1): void {
+        if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.values.set(key, entry);
+    }
+
+    protected samples(): string[] {
+        return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    }
+}
+
+export class Gauge extends Metric {
+    readonly type = 'gauge';
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(labels), { labels, value });
+    }
+
+    add(labels: Labels, amount: number): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.values.set(key, entry);
+    }
+
+    protected samples(): string[] {
+        return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    }
+}
+
+export class Histogram extends Metric {
+    readonly type = 'histogram';
+    private buckets: number[];
+    private values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(name: string, help: string, buckets: number[] = LATENCY_BUCKETS_SECONDS) {
+        super(name, help);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) entry.counts[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+        this.values.set(key, entry);
+    }
+
+    protected samples(): string[] {
+        const lines: string[] = [];
+        for (const { labels, counts, sum, count } of this.values.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Metrics of one process in the Prometheus text format. The bot process and the API server
+ * each have their own; GET /metrics on either renders it.
+ */
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    render(): string {
+        return this.metrics.map(metric => metric.render().join('\n')).join('\n\n') + '\n';
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+    scans: registry.counter('arb_scans_total', 'Completed opportunity scans'),
+    scanErrors: registry.counter('arb_scan_errors_total', 'Scans that threw'),
+    scanDuration: registry.histogram('arb_scan_duration_seconds', 'Time to evaluate the changed pools of one scan'),
+    detectionToSubmission: registry.histogram('arb_detection_to_submission_seconds', 'From the block or log that revealed a trade to sending it'),
+    rpcRequests: registry.counter('arb_rpc_requests_total', 'JSON-RPC requests by method and endpoint'),
+    rpcFailures: registry.counter('arb_rpc_failures_total', 'JSON-RPC requests the endpoint failed to answer'),
+    wsReconnects: registry.counter('arb_ws_reconnects_total', 'WebSocket connections replaced after a drop, stall or lag'),
+    opportunitiesFound: registry.counter('arb_opportunities_found_total', 'Opportunities that cleared the thresholds, by pair and DEXes'),
+    opportunitiesExecuted: registry.counter('arb_opportunities_executed_total', 'Opportunities sent (or paper-filled), by pair and DEXes'),
+    simulationFailures: registry.counter('arb_simulation_failures_total', 'Reverted simulations by revert reason'),
+    bundlesSubmitted: registry.counter('arb_bundles_submitted_total', 'Bundles sent to the relay'),
+    bundlesResolved: registry.counter('arb_bundles_resolved_total', 'Bundles resolved, included or not'),
+    builderSubmissions: registry.counter('arb_builder_submissions_total', 'Bundle sends per target block, by builder and whether it accepted'),
+    builderInclusions: registry.counter('arb_builder_inclusions_total', 'Bundles landed, by the builder whose block included them'),
+    mempoolTransactions: registry.counter('arb_mempool_transactions_total', 'Pending transactions seen by the mempool monitor, by outcome'),
+    gasSpent: registry.counter('arb_gas_spent_native_total', 'Gas paid, in the gas token, by risk scope'),
+    realisedPnl: registry.gauge('arb_realised_pnl_quote', 'Running realised net PnL in the quote token, by risk scope'),
+    trades: registry.counter('arb_trades_total', 'Trades that reached the chain or the relay, by result'),
+    nonceResyncs: registry.counter('arb_nonce_resyncs_total', 'Nonce resyncs against the chain, by reason')
+};
+
+/**
+ * Counts what producers already publish on the event bus. Returns the unsubscribe function.
+ */
+export function collectEventMetrics(): () => void {
+    return eventBus.subscribe(event => {
+        switch (event.type) {
+            case 'opportunity':
+                metrics.opportunitiesFound.inc({ chain: event.chain, pair: event.id, buy_dex: event.buyDex, sell_dex: event.sellDex });
+                break;
+            case 'simulation':
+                if (!event.success) metrics.simulationFailures.inc({ chain: event.chain, reason: textLabel(event.revertReason) });
+                break;
+            case 'bundle_sent':
+                metrics.bundlesSubmitted.inc({ chain: event.chain });
+                break;
+            case 'bundle_resolved':
+                metrics.bundlesResolved.inc({ chain: event.chain, included: String(event.included), resolution: event.resolution });
+                break;
+            case 'nonce_resync':
+                metrics.nonceResyncs.inc({ chain: event.chain, reason: event.reason });
+                break;
+        }
+    });
+}
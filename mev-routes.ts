@@ -30,10 +30,10 @@ router.get('/opportunities', async (req, res) => {
   }
 });
 
-// Create sandwich bundle
-router.post('/sandwich', async (req, res) => {
+// Price a back-run of a pending swap
+router.post('/backrun', async (req, res) => {
   try {
-    const { targetTx, amountIn } = req.body;
+    const { targetTxHash } = req.body;
     
     if (!flashbotsExecutor) {
       return res.status(503).json({
@@ -42,19 +42,19 @@ router.post('/sandwich', async (req, res) => {
       });
     }
 
-    if (!targetTx || !amountIn) {
+    if (!targetTxHash) {
       return res.status(400).json({
         success: false,
-        error: 'targetTx and amountIn are required'
+        error: 'targetTxHash is required'
       });
     }
 
-    const bundle = await flashbotsExecutor.createSandwichBundle(targetTx, amountIn);
+    const bundle = await flashbotsExecutor.createBackrunBundle(targetTxHash);
     
     if (!bundle) {
       return res.status(400).json({
         success: false,
-        error: 'Failed to create sandwich bundle'
+        error: 'No profitable back-run for this transaction'
       });
     }
 
@@ -63,10 +63,10 @@ router.post('/sandwich', async (req, res) => {
       data: bundle
     });
   } catch (error) {
-    logger.error('Sandwich bundle endpoint error:', error);
+    logger.error('Back-run bundle endpoint error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to create sandwich bundle'
+      error: 'Failed to create back-run bundle'
     });
   }
 });
@@ -83,6 +83,13 @@ router.post('/execute', async (req, res) => {
       });
     }
 
+    if (!Array.isArray(transactions) || transactions.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'transactions must be a non-empty array of signed transactions'
+      });
+    }
+
     const success = await flashbotsExecutor.executeBundle({
       transactions,
       blockNumber
@@ -113,7 +120,16 @@ router.get('/bundle/:bundleHash/stats', async (req, res) => {
       });
     }
 
-    const stats = await flashbotsExecutor.getBundleStats(bundleHash);
+    // The relay looks bundles up by target block; defaults to the one we recorded
+    const blockNumber = req.query.blockNumber !== undefined ? Number(req.query.blockNumber) : undefined;
+    if (blockNumber !== undefined && !Number.isInteger(blockNumber)) {
+      return res.status(400).json({
+        success: false,
+        error: 'blockNumber must be an integer'
+      });
+    }
+
+    const stats = await flashbotsExecutor.getBundleStats(bundleHash, blockNumber);
     
     res.json({
       success: true,
@@ -128,6 +144,39 @@ router.get('/bundle/:bundleHash/stats', async (req, res) => {
   }
 });
 
+// Bundles sent, newest first
+router.get('/bundles', (req, res) => {
+  if (!flashbotsExecutor) {
+    return res.status(503).json({
+      success: false,
+      error: 'Flashbots MEV executor not available'
+    });
+  }
+
+  const limit = Math.min(Number(req.query.limit) || 100, 1000);
+  const bundles = flashbotsExecutor.getBundleHistory(limit);
+  res.json({
+    success: true,
+    data: bundles,
+    count: bundles.length
+  });
+});
+
+// Per-builder sends and inclusions
+router.get('/builders', (req, res) => {
+  if (!flashbotsExecutor) {
+    return res.status(503).json({
+      success: false,
+      error: 'Flashbots MEV executor not available'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: flashbotsExecutor.getBuilderHealth()
+  });
+});
+
 // MEV status
 router.get('/status', (req, res) => {
   res.json({
@@ -1,92 +1,257 @@
-import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
 import logger from '../utils/logger';
+import { eventBus } from '../events';
 
+// The calls used here exist with the same shape on ethers v5 and v6 providers, which lets the
+// v6 Flashbots executor and the v5 arbitrage bot share this class
+export interface NonceProvider {
+    getTransactionCount(address: string, blockTag: 'latest' | 'pending'): Promise<number>;
+    getBlockNumber(): Promise<number>;
+    getNetwork(): Promise<{ name: string }>;
+}
+
+export const NONCE_STATE_DIR = path.join(process.cwd(), 'logs', 'nonces');
+
+const RESYNC_INTERVAL_BLOCKS = 10;
+const GAP_GRACE_MS = 30_000; // A broadcast nonce the node does not count yet is only a gap after this long
+
+interface PersistedNonces {
+    nextNonce: number;
+    committed: Array<{ nonce: number; at: number }>;
+    updatedAt: number;
+}
+
+/**
+ * Hands out nonces for one wallet.
+ *
+ *   reserve(n)  n consecutive nonces for transactions about to be signed
+ *   commit      the transactions were broadcast (or included); the nonces are spent
+ *   release     they will not be sent; the top of the range is handed out again, anything
+ *               below it becomes a gap that the next reservation or repairGaps fills
+ *
+ * A nonce at or above the node's pending count that is neither reserved nor recently
+ * committed is a gap: transactions above it cannot be mined until it is filled. The next
+ * nonce and the committed set are written to logs/nonces so a restart never hands out a
+ * nonce that may already be in flight.
+ */
 export class NonceManager {
-    private provider: ethers.JsonRpcProvider;
+    private provider: NonceProvider;
     private address: string;
-    private currentNonce: number;
-    private pendingNonces: Set<number>;
-    private lastSyncBlock: number;
+    private nextNonce: number = 0;
+    private reserved: Set<number> = new Set();
+    private committed: Map<number, number> = new Map(); // Nonce -> commit time
+    private gaps: Set<number> = new Set();
+    private lastSyncBlock: number = 0;
+    private chain: string = 'unknown';
+    private stateFile: string = '';
 
-    constructor(provider: ethers.JsonRpcProvider, address: string) {
+    constructor(provider: NonceProvider, address: string) {
         this.provider = provider;
         this.address = address;
-        this.currentNonce = 0;
-        this.pendingNonces = new Set();
-        this.lastSyncBlock = 0;
     }
 
     async initialize(): Promise<void> {
-        // Fetch pending nonce to get the correct next available nonce
-        const blockchainNonce = await this.provider.getTransactionCount(this.address, 'pending');
-        this.currentNonce = blockchainNonce;
-        this.pendingNonces.clear();
+        this.chain = (await this.provider.getNetwork()).name;
+        this.stateFile = path.join(NONCE_STATE_DIR, `${this.chain}-${this.address.toLowerCase()}.json`);
+
+        const persisted = this.load();
+        const pendingNonce = await this.provider.getTransactionCount(this.address, 'pending');
+
+        this.nextNonce = Math.max(pendingNonce, persisted?.nextNonce ?? 0);
+        this.reserved.clear();
+        this.committed = new Map((persisted?.committed ?? []).map(c => [c.nonce, c.at]));
         this.lastSyncBlock = await this.provider.getBlockNumber();
+        this.detectGaps(pendingNonce);
+        this.save();
 
-        logger.info(`NonceManager initialized - Starting nonce: ${this.currentNonce}`);
+        logger.info(`NonceManager initialized - Next nonce: ${this.nextNonce}, gaps: [${this.getGaps().join(', ')}]`);
     }
 
     /**
-     * Get next nonce pair for sandwich attack
-     * Returns [frontRunNonce, backRunNonce]
+     * Reserves `count` consecutive nonces, reusing gaps first so they close without filler
+     * transactions.
      */
-    getNextNoncePair(): [number, number] {
-        const frontRunNonce = this.currentNonce;
-        const backRunNonce = this.currentNonce + 1;
-
-        // Mark both nonces as pending
-        this.pendingNonces.add(frontRunNonce);
-        this.pendingNonces.add(backRunNonce);
+    reserve(count: number = 1): number[] {
+        const fromGaps = this.takeGapRun(count);
+        if (fromGaps) {
+            fromGaps.forEach(nonce => this.reserved.add(nonce));
+            // Persisted as in flight, so a restart does not refill a gap nonce already being signed
+            this.save();
+            logger.info(`Reserved nonces from gaps: [${fromGaps.join(', ')}]`);
+            return fromGaps;
+        }
 
-        // Optimistically increment for next bundle
-        this.currentNonce += 2;
+        const nonces = Array.from({ length: count }, (_, i) => this.nextNonce + i);
+        nonces.forEach(nonce => this.reserved.add(nonce));
+        this.nextNonce += count;
+        this.save();
 
-        logger.info(`Allocated nonce pair: [${frontRunNonce}, ${backRunNonce}]`);
-        return [frontRunNonce, backRunNonce];
+        logger.info(`Reserved nonces: [${nonces.join(', ')}]`);
+        return nonces;
     }
 
     /**
-     * Mark bundle as confirmed (nonces successfully used)
+     * The transactions using these nonces were broadcast.
      */
-    confirmBundle(frontRunNonce: number, backRunNonce: number): void {
-        this.pendingNonces.delete(frontRunNonce);
-        this.pendingNonces.delete(backRunNonce);
-        logger.info(`Confirmed nonces: [${frontRunNonce}, ${backRunNonce}]`);
+    commit(nonces: number[]): void {
+        const now = Date.now();
+        for (const nonce of nonces) {
+            this.reserved.delete(nonce);
+            this.gaps.delete(nonce);
+            this.committed.set(nonce, now);
+        }
+        this.save();
+        logger.info(`Committed nonces: [${nonces.join(', ')}]`);
     }
 
     /**
-     * Handle bundle failure - resync nonces
+     * The transactions using these nonces will not be sent, or were dropped.
      */
-    async handleBundleFailure(): Promise<void> {
-        logger.warn('Bundle failed - resyncing nonces');
-        // Resync by fetching the count of confirmed transactions (not pending)
-        this.currentNonce = await this.provider.getTransactionCount(this.address, 'latest');
-        this.pendingNonces.clear();
-        logger.info(`Nonce resynced to: ${this.currentNonce}`);
+    release(nonces: number[]): void {
+        for (const nonce of nonces) {
+            this.reserved.delete(nonce);
+            this.committed.delete(nonce);
+            this.gaps.add(nonce);
+        }
+
+        // Released nonces at the top are simply handed out again
+        while (this.gaps.has(this.nextNonce - 1)) {
+            this.nextNonce--;
+            this.gaps.delete(this.nextNonce);
+        }
+        this.save();
+        logger.info(`Released nonces: [${nonces.join(', ')}], next nonce ${this.nextNonce}`);
     }
 
-    async resyncIfNeeded(): Promise<void> {
+    /**
+     * Reconciles with the node every few blocks: drops mined nonces, skips past transactions
+     * sent from this wallet by someone else, and finds gaps. Never moves the next nonce below
+     * anything still reserved or committed.
+     */
+    async resyncIfNeeded(force: boolean = false): Promise<void> {
         const currentBlock = await this.provider.getBlockNumber();
-       
-        // Resync every 10 blocks or if we have too many pending nonces
-        if (
-            currentBlock - this.lastSyncBlock >= 10 ||
-            this.pendingNonces.size > 10
-        ) {
-            logger.info('Periodic nonce resync triggered');
-            // Fetch pending nonce to ensure we don't reuse a nonce that may still be pending
-            const blockchainNonce = await this.provider.getTransactionCount(this.address, 'pending');
-            this.currentNonce = blockchainNonce;
-            this.pendingNonces.clear();
-            this.lastSyncBlock = currentBlock;
+        if (!force && currentBlock - this.lastSyncBlock < RESYNC_INTERVAL_BLOCKS) return;
+
+        const previousNonce = this.nextNonce;
+        const [minedNonce, pendingNonce] = await Promise.all([
+            this.provider.getTransactionCount(this.address, 'latest'),
+            this.provider.getTransactionCount(this.address, 'pending')
+        ]);
+
+        for (const nonce of this.committed.keys()) {
+            if (nonce < minedNonce) this.committed.delete(nonce);
+        }
+        for (const nonce of this.gaps) {
+            if (nonce < pendingNonce) this.gaps.delete(nonce);
+        }
+
+        if (pendingNonce > this.nextNonce) {
+            this.nextNonce = pendingNonce;
+        }
+        this.detectGaps(pendingNonce);
+        this.lastSyncBlock = currentBlock;
+        this.save();
+
+        if (this.nextNonce !== previousNonce || this.gaps.size > 0) {
+            logger.info(`Nonce resync: next ${this.nextNonce}, mined ${minedNonce}, gaps [${this.getGaps().join(', ')}]`);
+            this.publishResync(previousNonce, this.gaps.size > 0 ? 'gap_detected' : 'periodic');
+        }
+    }
+
+    /**
+     * Sends a filler transaction (normally a zero-value transfer to self) for every gap so the
+     * transactions above it can be mined. `fill` must broadcast a transaction with the nonce.
+     */
+    async repairGaps(fill: (nonce: number) => Promise<void>): Promise<void> {
+        for (const nonce of this.getGaps()) {
+            this.gaps.delete(nonce);
+            this.reserved.add(nonce);
+            this.save();
+            try {
+                await fill(nonce);
+                this.commit([nonce]);
+                logger.warn(`Filled nonce gap ${nonce}`);
+            } catch (error: any) {
+                logger.error(`Failed to fill nonce gap ${nonce}: ${error.message}`);
+                this.reserved.delete(nonce);
+                this.gaps.add(nonce);
+            }
         }
     }
-   
+
     getCurrentNonce(): number {
-        return this.currentNonce;
+        return this.nextNonce;
     }
 
     getPendingCount(): number {
-        return this.pendingNonces.size;
+        return this.reserved.size + this.committed.size;
+    }
+
+    getGaps(): number[] {
+        return Array.from(this.gaps).sort((a, b) => a - b);
+    }
+
+    private detectGaps(pendingNonce: number): void {
+        const now = Date.now();
+        for (let nonce = pendingNonce; nonce < this.nextNonce; nonce++) {
+            if (this.reserved.has(nonce)) continue;
+
+            const committedAt = this.committed.get(nonce);
+            if (committedAt !== undefined && now - committedAt < GAP_GRACE_MS) continue;
+
+            // Broadcast long ago but still not counted by the node: lost, so refill it
+            this.committed.delete(nonce);
+            this.gaps.add(nonce);
+        }
+    }
+
+    private takeGapRun(count: number): number[] | null {
+        const gaps = this.getGaps();
+        for (let i = 0; i + count <= gaps.length; i++) {
+            if (gaps[i + count - 1] - gaps[i] === count - 1) {
+                const run = gaps.slice(i, i + count);
+                run.forEach(nonce => this.gaps.delete(nonce));
+                return run;
+            }
+        }
+        return null;
+    }
+
+    private load(): PersistedNonces | null {
+        try {
+            return JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+        } catch {
+            return null;
+        }
+    }
+
+    private save(): void {
+        if (!this.stateFile) return;
+
+        const state: PersistedNonces = {
+            nextNonce: this.nextNonce,
+            // Reserved nonces may be signed and sent before the next save, so they count as committed
+            committed: [
+                ...Array.from(this.committed, ([nonce, at]) => ({ nonce, at })),
+                ...Array.from(this.reserved, nonce => ({ nonce, at: Date.now() }))
+            ],
+            updatedAt: Date.now()
+        };
+
+        fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+        fs.writeFileSync(`${this.stateFile}.tmp`, JSON.stringify(state, null, 2));
+        fs.renameSync(`${this.stateFile}.tmp`, this.stateFile);
+    }
+
+    private publishResync(previousNonce: number, reason: string): void {
+        eventBus.publish({
+            type: 'nonce_resync',
+            chain: this.chain,
+            address: this.address,
+            previousNonce,
+            nonce: this.nextNonce,
+            reason
+        });
     }
 }
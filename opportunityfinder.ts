@@ -0,0 +1,236 @@
+// src/opportunityfinder.ts
+
+import { ethers } from 'ethers';
+import { PoolSource, PoolState } from './poolstate';
+import { solveOptimalBorrow, twoLegHops, SwapHop, SizingResult } from './sizing';
+import { findProfitableCycles, splitIntoLegs, hopsToPath } from './cycles';
+import { PricingService, estimateArbitrageGas } from './pricing';
+import { FlashLoanProvider, FlashLoanQuote } from './flashloan';
+import { ChainConfig, TokenConfig, Opportunity } from './types';
+import { logWarning } from './utils/logger';
+
+export interface FinderParams {
+    minProfitPercent: number; // Net of gas, relative to the borrow amount
+    minNetProfitQuote: string; // Whole quote tokens
+    maxPoolSharePercent: number;
+    maxCycleHops: number;
+}
+
+export const DEFAULT_FINDER_PARAMS: FinderParams = {
+    minProfitPercent: 0.15,
+    minNetProfitQuote: '1',
+    maxPoolSharePercent: 30,
+    maxCycleHops: 4,
+};
+
+/**
+ * Detection and sizing, independent of where pool state comes from. The live bot feeds it
+ * the RPC-backed PoolStateCache; the backtest feeds it replayed reserves.
+ */
+export class OpportunityFinder {
+    private config: ChainConfig;
+    private pools: PoolSource;
+    private pricing: PricingService;
+    private lenders: FlashLoanProvider[];
+    private params: FinderParams;
+
+    constructor(
+        config: ChainConfig,
+        pools: PoolSource,
+        pricing: PricingService,
+        lenders: FlashLoanProvider[],
+        params: Partial<FinderParams> = {}
+    ) {
+        this.config = config;
+        this.pools = pools;
+        this.pricing = pricing;
+        this.lenders = lenders;
+        this.params = { ...DEFAULT_FINDER_PARAMS, ...params };
+    }
+
+    /**
+     * Every opportunity that clears the thresholds, best net profit (in the quote token) first.
+     * With `changedPools` (lowercase addresses) only routes through at least one of them are
+     * evaluated; the rest were already priced on the same reserves by an earlier scan.
+     */
+    async findOpportunities(changedPools?: Set<string>): Promise<Opportunity[]> {
+        const opportunities: Opportunity[] = [];
+        const touchesChange = (route: PoolState[]) =>
+            !changedPools || route.some(pool => changedPools.has(pool.address.toLowerCase()));
+        
+        const tokens = this.config.tokens;
+        const pools: PoolState[] = [];
+        
+        for (let i = 0; i < tokens.length; i++) {
+            for (let j = i + 1; j < tokens.length; j++) {
+                const pairPools = await this.loadPairPools(tokens[i], tokens[j]);
+                pools.push(...pairPools);
+                opportunities.push(...await this.findArbitrage(tokens[i], pairPools, touchesChange));
+            }
+        }
+        
+        opportunities.push(...await this.findCycleArbitrage(pools, touchesChange));
+        
+        // Rank on net profit in the quote token so opportunities in different tokens compare
+        opportunities.sort((a, b) => b.netProfitQuote.sub(a.netProfitQuote).isNegative() ? -1 : 1);
+        return opportunities;
+    }
+    
+    private async loadPairPools(tokenA: TokenConfig, tokenB: TokenConfig): Promise<PoolState[]> {
+        // With the live cache only the first scan of a pair touches the RPC
+        const pools: PoolState[] = [];
+        for (const dex of this.config.dexes) {
+            const pool = await this.pools.getPool(dex, tokenA, tokenB);
+            if (pool) pools.push(pool);
+        }
+        return pools;
+    }
+    
+    private async findArbitrage(
+        tokenA: TokenConfig,
+        pools: PoolState[],
+        touchesChange: (route: PoolState[]) => boolean
+    ): Promise<Opportunity[]> {
+        const opportunities: Opportunity[] = [];
+
+        for (let i = 0; i < pools.length; i++) {
+            for (let j = 0; j < pools.length; j++) {
+                if (i === j || !touchesChange([pools[i], pools[j]])) continue;
+                
+                // Buy tokenB on pools[i], sell it back on pools[j]; both orders are tried
+                const opp = await this.buildOpportunity(tokenA, twoLegHops(pools[i], pools[j], tokenA.address));
+                if (opp) opportunities.push(opp);
+            }
+        }
+        
+        return opportunities;
+    }
+    
+    private async findCycleArbitrage(
+        pools: PoolState[],
+        touchesChange: (route: PoolState[]) => boolean
+    ): Promise<Opportunity[]> {
+        const opportunities: Opportunity[] = [];
+        
+        // Filter at the cheapest fee any lender could charge; buildOpportunity prices the real one
+        const minFeeBps = Math.min(...this.config.flashLoanProviders.map(p => p.feeBps ?? 0));
+        
+        const startTokens = this.config.tokens.map(token => token.address);
+        const cycles = findProfitableCycles(pools, startTokens, 3, this.params.maxCycleHops, minFeeBps);
+        for (const hops of cycles) {
+            if (!touchesChange(hops.map(hop => hop.pool))) continue;
+            const tokenA = this.findToken(hops[0].tokenIn);
+            if (!tokenA) continue;
+            const opp = await this.buildOpportunity(tokenA, hops);
+            if (opp) opportunities.push(opp);
+        }
+        
+        return opportunities;
+    }
+    
+    private async buildOpportunity(tokenA: TokenConfig, hops: SwapHop[]): Promise<Opportunity | null> {
+        const legs = splitIntoLegs(hops);
+        if (!legs) return null;
+        
+        const maxBorrow = tokenA.maxBorrow !== undefined
+            ? ethers.utils.parseUnits(tokenA.maxBorrow, tokenA.decimals).toBigInt()
+            : undefined;
+        
+        const funded = await this.sizeWithCheapestLender(tokenA, hops, maxBorrow);
+        if (!funded) return null;
+        const { sizing, flashLoan } = funded;
+        
+        // Gas is paid in the native token; convert it before judging profitability
+        const estimatedGas = estimateArbitrageGas(hops.length);
+        const gasCost = await this.pricing.gasCostInToken(estimatedGas, tokenA);
+        if (gasCost === null) return null;
+        
+        const netProfit = sizing.expectedProfit - gasCost;
+        const netProfitQuote = await this.pricing.toQuote(netProfit, tokenA);
+        if (netProfitQuote === null) return null;
+        
+        const quote = this.pricing.getQuoteToken();
+        if (netProfitQuote < ethers.utils.parseUnits(this.params.minNetProfitQuote, quote.decimals).toBigInt()) return null;
+        
+        const netInTokenA = Number(ethers.utils.formatUnits(netProfit, tokenA.decimals));
+        const profitPercent = (netInTokenA / Number(ethers.utils.formatUnits(sizing.borrowAmount, tokenA.decimals))) * 100;
+        if (profitPercent < this.params.minProfitPercent) return null;
+        
+        const pathBuy = hopsToPath(legs.buyHops);
+        const pathSell = hopsToPath(legs.sellHops);
+        const tokenB = this.findToken(pathSell[0]);
+        if (!tokenB) return null;
+        
+        const symbols = [...pathBuy, ...pathSell.slice(1, -1)].map(address => this.findToken(address)?.symbol ?? address);
+        const buyDex = legs.buyHops[0].pool.dex;
+        const sellDex = legs.sellHops[0].pool.dex;
+        
+        return {
+            id: symbols.join('/'),
+            tokenA, tokenB,
+            buyDex: buyDex.router,
+            sellDex: sellDex.router,
+            buyDexName: buyDex.name,
+            sellDexName: sellDex.name,
+            profitPercent,
+            estimatedProfit: ethers.BigNumber.from(sizing.expectedProfit),
+            estimatedGas: ethers.BigNumber.from(estimatedGas),
+            gasCost: ethers.BigNumber.from(gasCost),
+            netProfit: ethers.BigNumber.from(netProfit),
+            netProfitQuote: ethers.BigNumber.from(netProfitQuote),
+            borrowAmount: ethers.BigNumber.from(sizing.borrowAmount),
+            sizeLimitedBy: sizing.limitedBy,
+            profitCurve: sizing.profitCurve.map(point => ({
+                borrowAmount: ethers.BigNumber.from(point.borrowAmount),
+                profit: ethers.BigNumber.from(point.profit)
+            })),
+            pathBuy,
+            pathSell,
+            hops,
+            flashLoan
+        };
+    }
+    
+    /**
+     * Sizes the route at each lender's fee, cheapest first, and keeps the first lender that
+     * can fund the amount sized at its own fee. A lender whose liquidity cannot be read is
+     * assumed to have enough.
+     */
+    private async sizeWithCheapestLender(
+        tokenA: TokenConfig,
+        hops: SwapHop[],
+        maxBorrow: bigint | undefined
+    ): Promise<{ sizing: SizingResult; flashLoan: FlashLoanQuote } | null> {
+        const route = hops.map(hop => hop.pool);
+        const quotes: FlashLoanQuote[] = [];
+        for (const lender of this.lenders) {
+            // One lender failing to quote must not sink the scan; the others may still fund it
+            try {
+                const quote = await lender.quote(tokenA, route);
+                if (quote) quotes.push(quote);
+            } catch (error: any) {
+                logWarning(`${lender.name} quote failed`, { token: tokenA.symbol, error: error.message });
+            }
+        }
+        quotes.sort((a, b) => a.feeBps - b.feeBps);
+        
+        for (const flashLoan of quotes) {
+            const sizing = solveOptimalBorrow(hops, {
+                flashLoanFeeBps: flashLoan.feeBps,
+                maxPoolSharePercent: this.params.maxPoolSharePercent,
+                maxBorrow
+            });
+            // Unprofitable at this fee means unprofitable at every dearer one
+            if (!sizing) return null;
+            
+            if (flashLoan.available === null || sizing.borrowAmount <= flashLoan.available) {
+                return { sizing, flashLoan };
+            }
+        }
+        return null;
+    }
+    
+    private findToken(address: string): TokenConfig | undefined {
+        return this.config.tokens.find(t => t.address.toLowerCase() === address.toLowerCase());
+    }
+}
@@ -0,0 +1,370 @@
+// src/poolstate.ts
+
+import { ethers } from 'ethers';
+import { logInfo, logWarning } from './utils/logger';
+import { DEXConfig, TokenConfig } from './types';
+import { WebSocketPool } from './providerpool';
+import { ConcentratedLiquidity, TickLiquidity, MIN_TICK, MAX_TICK, swapExactIn, virtualReserves } from './concentratedliquidity';
+
+const FACTORY_ABI = [
+    'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+];
+
+const V3_FACTORY_ABI = [
+    'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'
+];
+
+const V3_POOL_ABI = [
+    'function token0() external view returns (address)',
+    'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+    'function liquidity() external view returns (uint128)',
+    'function tickSpacing() external view returns (int24)',
+    'function tickBitmap(int16 wordPosition) external view returns (uint256)',
+    'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+];
+
+const PAIR_ABI = [
+    'function token0() external view returns (address)',
+    'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+    'event Sync(uint112 reserve0, uint112 reserve1)'
+];
+
+const pairInterface = new ethers.utils.Interface(PAIR_ABI);
+const SYNC_TOPIC = pairInterface.getEventTopic('Sync');
+
+const v3PoolInterface = new ethers.utils.Interface(V3_POOL_ABI);
+const V3_SWAP_TOPIC = v3PoolInterface.getEventTopic('Swap');
+
+// Tick bitmap words loaded on each side of the current one; each word covers 256 tick spacings
+const V3_TICK_WORDS = 2;
+
+export interface PoolState {
+    address: string;
+    dex: DEXConfig;
+    token0: string;
+    token1: string;
+    reserve0: bigint; // For v3 pools, virtual reserves of the in-range liquidity
+    reserve1: bigint;
+    blockNumber: number;
+    v3?: ConcentratedLiquidity;
+}
+
+/**
+ * Anything that can hand out pool state by DEX and token pair: the live cache below, or
+ * a replay of recorded reserves in the backtest.
+ */
+export interface PoolSource {
+    getPool(dex: DEXConfig, tokenA: TokenConfig, tokenB: TokenConfig): Promise<PoolState | null>;
+}
+
+/**
+ * Constant-product output for a single V2 hop, identical to UniswapV2Library.getAmountOut
+ * with the fee expressed in basis points.
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number): bigint {
+    if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+
+    const amountInWithFee = amountIn * BigInt(10000 - feeBps);
+    const numerator = amountInWithFee * reserveOut;
+    const denominator = reserveIn * 10000n + amountInWithFee;
+    return numerator / denominator;
+}
+
+/**
+ * Output of swapping amountIn of tokenIn through any pool: constant product for V2 pairs,
+ * a tick-by-tick simulation for V3 pools.
+ */
+export function quoteSwap(pool: PoolState, tokenIn: string, amountIn: bigint): bigint {
+    if (pool.v3) {
+        const zeroForOne = tokenIn.toLowerCase() === pool.token0.toLowerCase();
+        return swapExactIn(pool.v3, zeroForOne, amountIn, pool.dex.feeBps);
+    }
+
+    const [reserveIn, reserveOut] = getReservesFor(pool, tokenIn);
+    return getAmountOut(amountIn, reserveIn, reserveOut, pool.dex.feeBps);
+}
+
+/**
+ * Returns [reserveIn, reserveOut] for a swap of tokenIn through the pool.
+ */
+export function getReservesFor(pool: PoolState, tokenIn: string): [bigint, bigint] {
+    return tokenIn.toLowerCase() === pool.token0.toLowerCase()
+        ? [pool.reserve0, pool.reserve1]
+        : [pool.reserve1, pool.reserve0];
+}
+
+/**
+ * Caches pool state so opportunities can be priced without hitting the RPC.
+ * Each V2 pair is loaded once with getReserves and then kept current from Sync logs
+ * delivered over the WebSocket provider. A V3 pool keeps its price and active liquidity
+ * current from Swap logs and reloads its ticks when liquidity is added or removed, or the
+ * price leaves the loaded tick window. `onChange` listeners hear about every update, which
+ * is what drives the bot's scans.
+ */
+export class PoolStateCache implements PoolSource {
+    private provider: ethers.providers.JsonRpcProvider;
+    private wsProvider: WebSocketPool;
+
+    // Pair address (lowercase) -> live reserves
+    private pools: Map<string, PoolState> = new Map();
+    // factory:tokenLo:tokenHi -> pair address, or null when the factory has no such pair
+    private pairIndex: Map<string, string | null> = new Map();
+    private loading: Map<string, Promise<PoolState | null>> = new Map();
+    private changeListeners: Array<(pool: PoolState) => void> = [];
+
+    constructor(provider: ethers.providers.JsonRpcProvider, wsProvider: WebSocketPool) {
+        this.provider = provider;
+        this.wsProvider = wsProvider;
+    }
+
+    /**
+     * Get the cached pool for a token pair on a DEX, loading it on first use.
+     * Returns null if the factory has no pair for these tokens.
+     */
+    async getPool(dex: DEXConfig, tokenA: TokenConfig, tokenB: TokenConfig): Promise<PoolState | null> {
+        const key = this.pairKey(dex, tokenA.address, tokenB.address);
+
+        if (this.pairIndex.has(key)) {
+            const address = this.pairIndex.get(key);
+            return address ? this.pools.get(address) ?? null : null;
+        }
+
+        let pending = this.loading.get(key);
+        if (!pending) {
+            pending = this.loadPool(key, dex, tokenA.address, tokenB.address).finally(() => this.loading.delete(key));
+            this.loading.set(key, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Amount of tokenOut received for amountIn of tokenIn, priced from cached reserves.
+     */
+    quote(pool: PoolState, tokenIn: string, amountIn: bigint): bigint {
+        return quoteSwap(pool, tokenIn, amountIn);
+    }
+
+    /**
+     * Called whenever a loaded pool's state moves: a Sync or Swap log, or a V3 reload.
+     */
+    onChange(listener: (pool: PoolState) => void): void {
+        this.changeListeners.push(listener);
+    }
+
+    /**
+     * Re-reads every loaded pool, for when logs may have been missed (a WebSocket reconnect).
+     */
+    async resync(): Promise<void> {
+        await Promise.all([...this.pools.values()].map(async pool => {
+            try {
+                if (pool.v3) {
+                    await this.refreshV3(pool);
+                } else {
+                    const pair = new ethers.Contract(pool.address, PAIR_ABI, this.provider);
+                    const [reserves, blockNumber] = await Promise.all([pair.getReserves(), this.provider.getBlockNumber()]);
+                    pool.reserve0 = reserves.reserve0.toBigInt();
+                    pool.reserve1 = reserves.reserve1.toBigInt();
+                    pool.blockNumber = blockNumber;
+                }
+                this.notifyChange(pool);
+            } catch (error: any) {
+                logWarning('Failed to refresh pool', { pool: pool.address, error: error.message });
+            }
+        }));
+    }
+
+    getPoolCount(): number {
+        return this.pools.size;
+    }
+
+    stop(): void {
+        for (const [address, pool] of this.pools) {
+            this.wsProvider.off(pool.v3 ? { address } : { address, topics: [SYNC_TOPIC] });
+        }
+        this.pools.clear();
+        this.pairIndex.clear();
+        this.changeListeners = [];
+    }
+
+    private async loadPool(key: string, dex: DEXConfig, tokenA: string, tokenB: string): Promise<PoolState | null> {
+        if (dex.kind === 'v3') return this.loadV3Pool(key, dex, tokenA, tokenB);
+
+        try {
+            const factory = new ethers.Contract(dex.factory, FACTORY_ABI, this.provider);
+            const pairAddress: string = await factory.getPair(tokenA, tokenB);
+
+            if (pairAddress === ethers.constants.AddressZero) {
+                this.pairIndex.set(key, null);
+                return null;
+            }
+
+            const pair = new ethers.Contract(pairAddress, PAIR_ABI, this.provider);
+            const [token0, reserves, blockNumber] = await Promise.all([
+                pair.token0() as Promise<string>,
+                pair.getReserves(),
+                this.provider.getBlockNumber()
+            ]);
+
+            const token1 = token0.toLowerCase() === tokenA.toLowerCase() ? tokenB : tokenA;
+            const pool: PoolState = {
+                address: pairAddress,
+                dex,
+                token0,
+                token1,
+                reserve0: reserves.reserve0.toBigInt(),
+                reserve1: reserves.reserve1.toBigInt(),
+                blockNumber
+            };
+
+            const address = pairAddress.toLowerCase();
+            this.pools.set(address, pool);
+            this.pairIndex.set(key, address);
+            this.subscribe(pool);
+
+            logInfo('Pool loaded', { dex: dex.name, pair: pairAddress });
+            return pool;
+        } catch (error: any) {
+            // Leave the pair unindexed so the next scan retries it
+            logWarning('Failed to load pool', { dex: dex.name, tokenA, tokenB, error: error.message });
+            return null;
+        }
+    }
+
+    private subscribe(pool: PoolState): void {
+        this.wsProvider.on({ address: pool.address, topics: [SYNC_TOPIC] }, (log: ethers.providers.Log) => {
+            // Ignore logs older than what a fresh getReserves already gave us
+            if (log.blockNumber < pool.blockNumber) return;
+
+            const { args } = pairInterface.parseLog(log);
+            pool.reserve0 = args.reserve0.toBigInt();
+            pool.reserve1 = args.reserve1.toBigInt();
+            pool.blockNumber = log.blockNumber;
+            this.notifyChange(pool);
+        });
+    }
+
+    private async loadV3Pool(key: string, dex: DEXConfig, tokenA: string, tokenB: string): Promise<PoolState | null> {
+        try {
+            const factory = new ethers.Contract(dex.factory, V3_FACTORY_ABI, this.provider);
+            const poolAddress: string = await factory.getPool(tokenA, tokenB, dex.feeBps * 100);
+
+            if (poolAddress === ethers.constants.AddressZero) {
+                this.pairIndex.set(key, null);
+                return null;
+            }
+
+            const contract = new ethers.Contract(poolAddress, V3_POOL_ABI, this.provider);
+            const token0: string = await contract.token0();
+            const token1 = token0.toLowerCase() === tokenA.toLowerCase() ? tokenB : tokenA;
+            const pool: PoolState = {
+                address: poolAddress,
+                dex,
+                token0,
+                token1,
+                reserve0: 0n,
+                reserve1: 0n,
+                blockNumber: 0
+            };
+            await this.refreshV3(pool);
+
+            const address = poolAddress.toLowerCase();
+            this.pools.set(address, pool);
+            this.pairIndex.set(key, address);
+            this.subscribeV3(pool);
+
+            logInfo('Pool loaded', { dex: dex.name, pool: poolAddress, ticks: pool.v3!.ticks.length });
+            return pool;
+        } catch (error: any) {
+            logWarning('Failed to load pool', { dex: dex.name, tokenA, tokenB, error: error.message });
+            return null;
+        }
+    }
+
+    /**
+     * Reads price, active liquidity and the initialized ticks within V3_TICK_WORDS bitmap
+     * words of the current tick.
+     */
+    private async refreshV3(pool: PoolState): Promise<void> {
+        const contract = new ethers.Contract(pool.address, V3_POOL_ABI, this.provider);
+        const [slot0, liquidity, tickSpacing, blockNumber] = await Promise.all([
+            contract.slot0(),
+            contract.liquidity() as Promise<ethers.BigNumber>,
+            contract.tickSpacing() as Promise<number>,
+            this.provider.getBlockNumber()
+        ]);
+
+        const tick: number = slot0.tick;
+        const word = Math.floor(Math.floor(tick / tickSpacing) / 256);
+        const words = Array.from({ length: 2 * V3_TICK_WORDS + 1 }, (_, i) => word - V3_TICK_WORDS + i);
+        const bitmaps: ethers.BigNumber[] = await Promise.all(words.map(w => contract.tickBitmap(w)));
+
+        const indexes: number[] = [];
+        words.forEach((w, i) => {
+            const bitmap = bitmaps[i].toBigInt();
+            for (let bit = 0; bit < 256; bit++) {
+                if ((bitmap >> BigInt(bit)) & 1n) indexes.push((w * 256 + bit) * tickSpacing);
+            }
+        });
+        const ticks: TickLiquidity[] = await Promise.all(indexes.map(async index => ({
+            index,
+            liquidityNet: (await contract.ticks(index)).liquidityNet.toBigInt()
+        })));
+
+        pool.v3 = {
+            sqrtPriceX96: slot0.sqrtPriceX96.toBigInt(),
+            tick,
+            liquidity: liquidity.toBigInt(),
+            tickSpacing,
+            ticks,
+            lowerTick: Math.max(words[0] * 256 * tickSpacing, MIN_TICK),
+            upperTick: Math.min((words[words.length - 1] + 1) * 256 * tickSpacing - 1, MAX_TICK)
+        };
+        [pool.reserve0, pool.reserve1] = virtualReserves(pool.v3);
+        pool.blockNumber = blockNumber;
+    }
+
+    private subscribeV3(pool: PoolState): void {
+        let reloading = false;
+        const reload = () => {
+            if (reloading) return;
+            reloading = true;
+            this.refreshV3(pool)
+                .then(() => this.notifyChange(pool))
+                .catch((error: any) => logWarning('Failed to refresh pool', { pool: pool.address, error: error.message }))
+                .finally(() => { reloading = false; });
+        };
+
+        this.wsProvider.on({ address: pool.address }, (log: ethers.providers.Log) => {
+            if (log.blockNumber < pool.blockNumber) return;
+
+            // Mint, Burn and forks' Swap events with a different signature change what was
+            // loaded in ways the log alone does not describe
+            if (log.topics[0] !== V3_SWAP_TOPIC) return reload();
+
+            const { args } = v3PoolInterface.parseLog(log);
+            const state = pool.v3!;
+            state.sqrtPriceX96 = args.sqrtPriceX96.toBigInt();
+            state.liquidity = args.liquidity.toBigInt();
+            state.tick = args.tick;
+            [pool.reserve0, pool.reserve1] = virtualReserves(state);
+            pool.blockNumber = log.blockNumber;
+
+            if (state.tick < state.lowerTick || state.tick > state.upperTick) return reload();
+            this.notifyChange(pool);
+        });
+    }
+
+    private notifyChange(pool: PoolState): void {
+        for (const listener of this.changeListeners) listener(pool);
+    }
+
+    private pairKey(dex: DEXConfig, tokenA: string, tokenB: string): string {
+        const [lo, hi] = tokenA.toLowerCase() < tokenB.toLowerCase()
+            ? [tokenA.toLowerCase(), tokenB.toLowerCase()]
+            : [tokenB.toLowerCase(), tokenA.toLowerCase()];
+        // A V3 factory has one pool per fee tier
+        const factory = dex.kind === 'v3' ? `${dex.factory.toLowerCase()}/${dex.feeBps}` : dex.factory.toLowerCase();
+        return `${factory}:${lo}:${hi}`;
+    }
+}
@@ -0,0 +1,127 @@
+// src/pricing.ts
+
+import { ethers } from 'ethers';
+import { PoolSource, PoolState, getReservesFor } from './poolstate';
+import { ChainConfig, TokenConfig } from './types';
+
+// Rough executeArbitrage cost before a real estimate exists: flash loan + repay, plus each swap
+const BASE_ARBITRAGE_GAS = 150_000n;
+const GAS_PER_HOP = 90_000n;
+
+export function estimateArbitrageGas(hopCount: number): bigint {
+    return BASE_ARBITRAGE_GAS + GAS_PER_HOP * BigInt(hopCount);
+}
+
+/**
+ * Converts between native gas and ERC-20 amounts using mid prices of cached pools.
+ * Every conversion is routed through the chain's wrapped native token, picking the
+ * deepest pool on any configured DEX.
+ */
+export class PricingService {
+    private provider: ethers.providers.Provider | null;
+    private pools: PoolSource;
+    private config: ChainConfig;
+    private gasPrice: bigint = 0n;
+
+    constructor(pools: PoolSource, config: ChainConfig, provider: ethers.providers.Provider | null = null) {
+        this.provider = provider;
+        this.pools = pools;
+        this.config = config;
+    }
+
+    /**
+     * Refreshes the gas price used for estimates. Call once per scan.
+     */
+    async refreshGasPrice(): Promise<bigint> {
+        if (!this.provider) throw new Error('PricingService has no provider; use setGasPrice');
+
+        const feeData = await this.provider.getFeeData();
+        this.gasPrice = feeData.gasPrice!.toBigInt() + this.config.maxPriorityFee;
+        return this.gasPrice;
+    }
+
+    /**
+     * Sets the gas price directly, for replays where there is no provider.
+     */
+    setGasPrice(gasPrice: bigint): void {
+        this.gasPrice = gasPrice;
+    }
+
+    getGasPrice(): bigint {
+        return this.gasPrice;
+    }
+
+    getQuoteToken(): TokenConfig {
+        return this.findToken(this.config.quoteToken)!;
+    }
+
+    /**
+     * Gas cost of `gasUnits` at the current gas price, in base units of `token`.
+     */
+    async gasCostInToken(gasUnits: bigint, token: TokenConfig, gasPrice: bigint = this.gasPrice): Promise<bigint | null> {
+        return this.nativeToToken(gasUnits * gasPrice, token);
+    }
+
+    async nativeToToken(amountWei: bigint, token: TokenConfig): Promise<bigint | null> {
+        if (this.isWrappedNative(token)) return amountWei;
+
+        const pool = await this.deepestNativePool(token);
+        if (!pool) return null;
+
+        const [reserveNative, reserveToken] = getReservesFor(pool, this.config.wrappedNative);
+        return amountWei * reserveToken / reserveNative;
+    }
+
+    async tokenToNative(amount: bigint, token: TokenConfig): Promise<bigint | null> {
+        if (this.isWrappedNative(token)) return amount;
+
+        const pool = await this.deepestNativePool(token);
+        if (!pool) return null;
+
+        const [reserveNative, reserveToken] = getReservesFor(pool, this.config.wrappedNative);
+        return amount * reserveNative / reserveToken;
+    }
+
+    /**
+     * Converts a (possibly negative) amount of `token` into the chain's quote token.
+     */
+    async toQuote(amount: bigint, token: TokenConfig): Promise<bigint | null> {
+        const quote = this.getQuoteToken();
+        if (token.address.toLowerCase() === quote.address.toLowerCase()) return amount;
+
+        const sign = amount < 0n ? -1n : 1n;
+        const native = await this.tokenToNative(amount * sign, token);
+        if (native === null) return null;
+
+        const converted = await this.nativeToToken(native, quote);
+        return converted === null ? null : converted * sign;
+    }
+
+    private async deepestNativePool(token: TokenConfig): Promise<PoolState | null> {
+        const wrapped = this.findToken(this.config.wrappedNative);
+        if (!wrapped) return null;
+
+        let best: PoolState | null = null;
+        let bestReserve = 0n;
+        for (const dex of this.config.dexes) {
+            const pool = await this.pools.getPool(dex, wrapped, token);
+            if (!pool) continue;
+
+            const [reserveNative, reserveToken] = getReservesFor(pool, wrapped.address);
+            if (reserveToken > 0n && reserveNative > bestReserve) {
+                best = pool;
+                bestReserve = reserveNative;
+            }
+        }
+        return best;
+    }
+
+    private isWrappedNative(token: TokenConfig): boolean {
+        return token.address.toLowerCase() === this.config.wrappedNative.toLowerCase();
+    }
+
+    private findToken(addressOrSymbol: string): TokenConfig | undefined {
+        const key = addressOrSymbol.toLowerCase();
+        return this.config.tokens.find(t => t.address.toLowerCase() === key || t.symbol.toLowerCase() === key);
+    }
+}
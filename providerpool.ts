@@ -0,0 +1,453 @@
+// src/providerpool.ts
+
+import { ethers } from 'ethers';
+import { logInfo, logWarning } from './utils/logger';
+import { metrics } from './metrics';
+
+const HEALTH_CHECK_INTERVAL_MS = 15_000;
+const MAX_LAG_BLOCKS = 3; // Behind the best endpoint's head by more than this is lagging
+const LATENCY_SMOOTHING = 0.2; // Weight of the newest sample in the moving averages
+const ERROR_RATE_PENALTY = 10; // An endpoint failing every request scores 11x its latency
+const MAX_CONSECUTIVE_FAILURES = 3;
+const FAILURE_COOLDOWN_MS = 30_000;
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const WS_STALL_MS = 60_000; // A socket with no new head for this long is reconnected
+// JSON-RPC errors that say the endpoint is throttling us rather than rejecting the call
+const RATE_LIMIT_CODES = [-32005, -32029, 429];
+// Calls that depend on one node's mempool: sends, nonces and pending lookups go to the same node
+const PINNED_METHODS = ['eth_sendRawTransaction', 'eth_getTransactionCount', 'eth_getTransactionByHash'];
+// What a node answers when it already has a transaction we (re)broadcast
+const ALREADY_KNOWN = /already known|known transaction|already imported|already exists/i;
+// What it answers when the nonce is taken, which after a lost send may be by that same send
+const NONCE_TAKEN = /nonce too low|replacement (transaction )?underpriced/i;
+
+export type EndpointState = 'healthy' | 'lagging' | 'down';
+
+export interface EndpointHealth {
+    kind: 'http' | 'ws';
+    url: string; // Origin only; paths and query strings often carry API keys
+    state: EndpointState;
+    latencyMs?: number;
+    errorRate: number; // Moving average, 0..1
+    requests: number;
+    failures: number;
+    blockNumber?: number;
+    lagBlocks?: number;
+    reconnects?: number;
+}
+
+interface Endpoint {
+    url: string;
+    provider: ethers.providers.StaticJsonRpcProvider;
+    latencyMs?: number;
+    errorRate: number;
+    requests: number;
+    failures: number;
+    consecutiveFailures: number;
+    downUntil: number;
+    blockNumber?: number;
+}
+
+function redactUrl(url: string): string {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return '<invalid url>';
+    }
+}
+
+// Ethers wraps JSON-RPC error responses with the node's error as `error.error`; anything
+// without a numeric RPC code never got an answer from the node
+function rpcCodeOf(error: any): number | undefined {
+    return typeof error?.error?.code === 'number' ? error.error.code
+        : typeof error?.code === 'number' ? error.code
+        : undefined;
+}
+
+function isEndpointFailure(error: any): boolean {
+    const rpcCode = rpcCodeOf(error);
+    return rpcCode === undefined || RATE_LIMIT_CODES.includes(rpcCode);
+}
+
+// A send that failed this way may still have reached the node and be broadcast
+function mayHaveBroadcast(error: any): boolean {
+    const rpcCode = rpcCodeOf(error);
+    if (rpcCode !== undefined && RATE_LIMIT_CODES.includes(rpcCode)) return false;
+    return !/ECONNREFUSED|ENOTFOUND|EAI_AGAIN/.test(`${error?.code} ${error?.message}`);
+}
+
+function rpcMessageOf(error: any): string {
+    return `${error?.error?.message ?? ''} ${error?.body ?? ''} ${error?.message ?? ''}`;
+}
+
+/**
+ * JSON-RPC provider over several endpoints of one chain. Every call goes to the healthiest
+ * endpoint and fails over to the next when the endpoint, not the call, is at fault: a
+ * timeout, a bad HTTP response or rate limiting. Endpoints are ranked by latency weighted
+ * by error rate; those that failed MAX_CONSECUTIVE_FAILURES times in a row sit out
+ * FAILURE_COOLDOWN_MS, and those more than MAX_LAG_BLOCKS behind the best head (polled every
+ * HEALTH_CHECK_INTERVAL_MS) are only used when nothing better is left.
+ *
+ * Mempools differ between nodes, so PINNED_METHODS stick to the endpoint that last served
+ * one until it goes down; otherwise pending nonces would be read from nodes that never saw
+ * our transactions. A send that fails over may already be out through the first node, so
+ * the next node's "already known", or a taken nonce, counts as sent: the transaction hash is
+ * returned and the transaction manager finds out what became of it.
+ */
+export class RpcPool extends ethers.providers.StaticJsonRpcProvider {
+    private endpoints: Endpoint[];
+    private chainName: string;
+    private head = 0;
+    private pinned: Endpoint | null = null;
+    private healthTimer: NodeJS.Timeout;
+
+    constructor(urls: string[], chainId: number, chainName: string) {
+        super(urls[0], chainId);
+        this.chainName = chainName;
+        this.endpoints = urls.map(url => ({
+            url,
+            provider: new ethers.providers.StaticJsonRpcProvider(url, chainId),
+            errorRate: 0,
+            requests: 0,
+            failures: 0,
+            consecutiveFailures: 0,
+            downUntil: 0
+        }));
+
+        this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+        this.healthTimer.unref();
+        this.checkHealth();
+    }
+
+    async send(method: string, params: Array<any>): Promise<any> {
+        const pinned = PINNED_METHODS.includes(method);
+        const isSend = method === 'eth_sendRawTransaction';
+        let lastError: any;
+        let maybeSent = false;
+
+        for (const endpoint of pinned ? this.pinnedFirst() : this.ranked()) {
+            const startedAt = Date.now();
+            metrics.rpcRequests.inc({ chain: this.chainName, method, endpoint: redactUrl(endpoint.url) });
+            try {
+                const result = await endpoint.provider.send(method, params);
+                this.recordSuccess(endpoint, Date.now() - startedAt);
+                if (method === 'eth_blockNumber') this.recordHead(endpoint, Number(result));
+                if (pinned) this.pinned = endpoint;
+                return result;
+            } catch (error: any) {
+                if (!isEndpointFailure(error)) {
+                    // The node answered; a revert or a bad nonce is the same on every endpoint
+                    this.recordSuccess(endpoint, Date.now() - startedAt);
+                    if (pinned) this.pinned = endpoint;
+                    if (isSend && (ALREADY_KNOWN.test(rpcMessageOf(error)) || (maybeSent && NONCE_TAKEN.test(rpcMessageOf(error))))) {
+                        return ethers.utils.keccak256(params[0]);
+                    }
+                    throw error;
+                }
+                this.recordFailure(endpoint, error);
+                if (isSend && mayHaveBroadcast(error)) maybeSent = true;
+                lastError = error;
+            }
+        }
+
+        if (maybeSent) {
+            // Releasing the nonce could reuse it under a live transaction; the manager will
+            // see the transaction mined, or dropped and the nonce free
+            logWarning('Transaction send unconfirmed on every endpoint, tracking it as sent', {
+                chain: this.chainName,
+                error: lastError?.reason ?? lastError?.message
+            });
+            return ethers.utils.keccak256(params[0]);
+        }
+        throw lastError;
+    }
+
+    /**
+     * Best head any endpoint has reported, 0 before the first health check.
+     */
+    getHead(): number {
+        return this.head;
+    }
+
+    getHealth(): EndpointHealth[] {
+        return this.endpoints.map(endpoint => ({
+            kind: 'http',
+            url: redactUrl(endpoint.url),
+            state: this.stateOf(endpoint),
+            latencyMs: endpoint.latencyMs === undefined ? undefined : Math.round(endpoint.latencyMs),
+            errorRate: Number(endpoint.errorRate.toFixed(3)),
+            requests: endpoint.requests,
+            failures: endpoint.failures,
+            blockNumber: endpoint.blockNumber,
+            lagBlocks: endpoint.blockNumber === undefined ? undefined : this.head - endpoint.blockNumber
+        }));
+    }
+
+    stop(): void {
+        clearInterval(this.healthTimer);
+    }
+
+    private ranked(): Endpoint[] {
+        const rank: Record<EndpointState, number> = { healthy: 0, lagging: 1, down: 2 };
+        // An endpoint not yet measured scores 0, so it is tried early and gets measured
+        const score = (endpoint: Endpoint) => (endpoint.latencyMs ?? 0) * (1 + ERROR_RATE_PENALTY * endpoint.errorRate);
+
+        return [...this.endpoints].sort((a, b) =>
+            rank[this.stateOf(a)] - rank[this.stateOf(b)] || score(a) - score(b)
+        );
+    }
+
+    private pinnedFirst(): Endpoint[] {
+        const ranked = this.ranked();
+        const pinned = this.pinned;
+        if (!pinned || this.stateOf(pinned) === 'down') return ranked;
+        return [pinned, ...ranked.filter(endpoint => endpoint !== pinned)];
+    }
+
+    private stateOf(endpoint: Endpoint): EndpointState {
+        if (endpoint.downUntil > Date.now()) return 'down';
+        if (endpoint.blockNumber !== undefined && this.head - endpoint.blockNumber > MAX_LAG_BLOCKS) return 'lagging';
+        return 'healthy';
+    }
+
+    private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+        endpoint.requests++;
+        endpoint.latencyMs = endpoint.latencyMs === undefined
+            ? latencyMs
+            : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+        endpoint.errorRate *= 1 - LATENCY_SMOOTHING;
+
+        if (endpoint.downUntil > 0) {
+            logInfo('RPC endpoint recovered', { url: redactUrl(endpoint.url) });
+            endpoint.downUntil = 0;
+        }
+        endpoint.consecutiveFailures = 0;
+    }
+
+    private recordFailure(endpoint: Endpoint, error: any): void {
+        metrics.rpcFailures.inc({ chain: this.chainName, endpoint: redactUrl(endpoint.url) });
+        endpoint.requests++;
+        endpoint.failures++;
+        endpoint.errorRate += LATENCY_SMOOTHING * (1 - endpoint.errorRate);
+        endpoint.consecutiveFailures++;
+
+        if (endpoint.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES && endpoint.downUntil <= Date.now()) {
+            endpoint.downUntil = Date.now() + FAILURE_COOLDOWN_MS;
+            logWarning('RPC endpoint down, failing over', {
+                url: redactUrl(endpoint.url),
+                failures: endpoint.consecutiveFailures,
+                error: error.reason ?? error.message
+            });
+        }
+    }
+
+    private recordHead(endpoint: Endpoint, blockNumber: number): void {
+        endpoint.blockNumber = blockNumber;
+        this.head = Math.max(this.head, blockNumber);
+    }
+
+    private async checkHealth(): Promise<void> {
+        const wasLagging = new Set(this.endpoints.filter(e => this.stateOf(e) === 'lagging'));
+
+        await Promise.all(this.endpoints.map(async endpoint => {
+            const startedAt = Date.now();
+            try {
+                const blockNumber = Number(await endpoint.provider.send('eth_blockNumber', []));
+                this.recordSuccess(endpoint, Date.now() - startedAt);
+                this.recordHead(endpoint, blockNumber);
+            } catch (error: any) {
+                this.recordFailure(endpoint, error);
+            }
+        }));
+
+        for (const endpoint of this.endpoints) {
+            const lagging = this.stateOf(endpoint) === 'lagging';
+            if (lagging && !wasLagging.has(endpoint)) {
+                logWarning('RPC endpoint lagging behind the chain head', {
+                    url: redactUrl(endpoint.url),
+                    blockNumber: endpoint.blockNumber,
+                    head: this.head
+                });
+            } else if (!lagging && wasLagging.has(endpoint)) {
+                logInfo('RPC endpoint caught up', { url: redactUrl(endpoint.url) });
+            }
+        }
+    }
+}
+
+interface Subscription {
+    eventName: ethers.providers.EventType;
+    listener: ethers.providers.Listener;
+}
+
+// Same event as ethers compares them: filters by lowercase address and topics
+function eventTag(eventName: ethers.providers.EventType): string {
+    if (typeof eventName === 'string') return eventName;
+    if (Array.isArray(eventName)) return JSON.stringify(eventName);
+    const filter = eventName as ethers.providers.Filter;
+    return `${(filter.address ?? '*').toLowerCase()}:${JSON.stringify(filter.topics ?? [])}`;
+}
+
+/**
+ * WebSocket subscriptions that survive the socket. Listeners are kept here and registered
+ * again on every new connection; a socket that closes, errors, delivers no head for
+ * WS_STALL_MS or falls MAX_LAG_BLOCKS behind `referenceHead` is replaced by one to the next
+ * URL, with exponential backoff. Logs emitted while no socket was up are lost, so
+ * `onReconnect` listeners should re-read whatever state they keep from them.
+ */
+export class WebSocketPool {
+    private urls: string[];
+    private chainId: number;
+    private chainName: string;
+    private referenceHead: () => number;
+    private provider: ethers.providers.WebSocketProvider;
+    private current = 0;
+    private subscriptions: Subscription[] = [];
+    private reconnectListeners: Array<() => void> = [];
+    private connected = false;
+    private attempts = 0; // Failed connects in a row, for the backoff
+    private drops = 0;
+    private reconnects = 0;
+    private head?: number;
+    private lastHeadAt = Date.now();
+    private stopped = false;
+    private reconnectTimer?: NodeJS.Timeout;
+    private stallTimer: NodeJS.Timeout;
+
+    constructor(urls: string[], chainId: number, chainName: string, referenceHead: () => number = () => 0) {
+        this.urls = urls;
+        this.chainId = chainId;
+        this.chainName = chainName;
+        this.referenceHead = referenceHead;
+        this.provider = this.connect();
+
+        this.stallTimer = setInterval(() => this.checkStall(), HEALTH_CHECK_INTERVAL_MS);
+        this.stallTimer.unref();
+    }
+
+    on(eventName: ethers.providers.EventType, listener: ethers.providers.Listener): this {
+        this.subscriptions.push({ eventName, listener });
+        this.provider.on(eventName, listener);
+        return this;
+    }
+
+    off(eventName: ethers.providers.EventType, listener?: ethers.providers.Listener): this {
+        const tag = eventTag(eventName);
+        this.subscriptions = this.subscriptions.filter(s =>
+            eventTag(s.eventName) !== tag || (listener !== undefined && s.listener !== listener)
+        );
+        this.provider.off(eventName, listener);
+        return this;
+    }
+
+    removeAllListeners(): this {
+        this.subscriptions = [];
+        this.provider.removeAllListeners();
+        this.trackHead(this.provider);
+        return this;
+    }
+
+    /**
+     * Called once a replacement socket is open and every subscription is registered on it.
+     */
+    onReconnect(listener: () => void): void {
+        this.reconnectListeners.push(listener);
+    }
+
+    getHealth(): EndpointHealth[] {
+        return [{
+            kind: 'ws',
+            url: redactUrl(this.urls[this.current]),
+            state: !this.connected ? 'down'
+                : this.head !== undefined && this.referenceHead() - this.head > MAX_LAG_BLOCKS ? 'lagging'
+                : 'healthy',
+            errorRate: 0,
+            requests: 0,
+            failures: this.drops,
+            blockNumber: this.head,
+            lagBlocks: this.head === undefined ? undefined : Math.max(0, this.referenceHead() - this.head),
+            reconnects: this.reconnects
+        }];
+    }
+
+    async destroy(): Promise<void> {
+        this.stopped = true;
+        clearInterval(this.stallTimer);
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.subscriptions = [];
+        this.provider.removeAllListeners();
+        await this.provider.destroy();
+    }
+
+    private connect(): ethers.providers.WebSocketProvider {
+        const isReconnect = this.reconnects > 0;
+        const provider = new ethers.providers.WebSocketProvider(this.urls[this.current], this.chainId);
+
+        provider._websocket.on('open', () => {
+            if (provider !== this.provider || this.stopped) return;
+            this.connected = true;
+            this.attempts = 0;
+            this.lastHeadAt = Date.now();
+            if (isReconnect) {
+                logInfo('WebSocket reconnected', { url: redactUrl(this.urls[this.current]), subscriptions: this.subscriptions.length });
+                for (const listener of this.reconnectListeners) listener();
+            }
+        });
+        provider._websocket.on('close', (code: number) => {
+            if (provider === this.provider) this.scheduleReconnect(`closed with code ${code}`);
+        });
+        // Without a listener a socket error would be thrown as an uncaught exception
+        provider._websocket.on('error', (error: Error) => {
+            if (provider === this.provider) this.scheduleReconnect(error.message);
+        });
+        this.trackHead(provider);
+
+        return provider;
+    }
+
+    private trackHead(provider: ethers.providers.WebSocketProvider): void {
+        provider.on('block', (blockNumber: number) => {
+            this.head = blockNumber;
+            this.lastHeadAt = Date.now();
+        });
+    }
+
+    private scheduleReconnect(reason: string): void {
+        if (this.stopped || this.reconnectTimer) return;
+        this.connected = false;
+        this.drops++;
+
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.attempts, RECONNECT_MAX_DELAY_MS);
+        this.attempts++;
+        this.current = (this.current + 1) % this.urls.length;
+        logWarning('WebSocket lost, reconnecting', { reason, url: redactUrl(this.urls[this.current]), delayMs: delay });
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.reconnect();
+        }, delay);
+    }
+
+    private reconnect(): void {
+        const previous = this.provider;
+        previous.removeAllListeners();
+        previous.destroy().catch(() => undefined);
+
+        this.reconnects++;
+        metrics.wsReconnects.inc({ source: this.chainName });
+        this.provider = this.connect();
+        for (const { eventName, listener } of this.subscriptions) this.provider.on(eventName, listener);
+    }
+
+    private checkStall(): void {
+        if (!this.connected) return;
+
+        const silentMs = Date.now() - this.lastHeadAt;
+        if (silentMs > WS_STALL_MS) {
+            this.scheduleReconnect(`no new head for ${Math.round(silentMs / 1000)}s`);
+        } else if (this.head !== undefined && this.referenceHead() - this.head > MAX_LAG_BLOCKS) {
+            this.scheduleReconnect(`${this.referenceHead() - this.head} blocks behind the RPC head`);
+        }
+    }
+}
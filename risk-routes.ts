@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { listRiskStates, resumeRiskScope } from '../riskmanager';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Circuit-breaker state of every bot and executor, as persisted under logs/risk
+router.get('/risk', (req, res) => {
+  try {
+    const states = listRiskStates();
+
+    res.json({
+      success: true,
+      data: states,
+      paused: states.filter(s => s.paused).map(s => s.scope)
+    });
+  } catch (error) {
+    logger.error('Risk endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read risk state'
+    });
+  }
+});
+
+// Manually clear a pause; the bot picks it up before its next trade
+router.post('/risk/:scope/resume', (req, res) => {
+  try {
+    const state = resumeRiskScope(req.params.scope);
+
+    if (!state) {
+      return res.status(404).json({
+        success: false,
+        error: `No risk state for ${req.params.scope}`
+      });
+    }
+
+    logger.warn(`Risk scope ${req.params.scope} resumed through the API`);
+    res.json({
+      success: true,
+      data: state
+    });
+  } catch (error) {
+    logger.error('Risk resume error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resume trading'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,236 @@
+// src/riskmanager.ts
+
+import fs from 'fs';
+import path from 'path';
+import { logError, logInfo, logWarning } from './utils/logger';
+import { RiskLimits } from './types';
+import { metrics } from './metrics';
+
+export const RISK_STATE_DIR = path.join(process.cwd(), 'logs', 'risk');
+
+const GAS_WINDOW_MS = 60 * 60_000;
+const WEI_PER_NATIVE = 10n ** 18n;
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+    maxGasPerHour: '1',
+    maxConsecutiveReverts: 3,
+    maxDailyLossQuote: '100',
+    maxNotionalQuote: '50000',
+    minBalance: '0.05'
+};
+
+export interface RiskState {
+    scope: string;
+    paused: boolean;
+    pauseReason?: string;
+    pausedAt?: number;
+    resumedAt?: number;
+    consecutiveReverts: number;
+    day: string; // UTC day dailyNetQuote belongs to
+    dailyNetQuote: number;
+    gasSpent: Array<{ at: number; wei: string }>; // Last hour only
+}
+
+export interface RiskCheck {
+    notionalQuote: number; // Size of the trade in the quote token
+    tokenLimitQuote?: string; // Per-token cap overriding limits.maxNotionalQuote
+    balanceWei: bigint; // Current wallet balance of the gas token
+}
+
+export interface RiskResult {
+    gasCostWei: bigint;
+    reverted: boolean;
+    netProfitQuote: number; // Realised PnL of the trade, negative for a loss
+}
+
+// Not a discriminated union: without strictNullChecks `!decision.allowed` would not narrow it
+export type RiskDecision = { allowed: boolean; reason?: string };
+
+/**
+ * Circuit breaker consulted before every trade or bundle. Trades over the notional cap are
+ * rejected one by one; a low wallet balance, too many reverts in a row, too much gas in the
+ * last hour or a daily loss over the limit pause the scope until someone resumes it.
+ *
+ * State lives in logs/risk/<scope>.json so a pause survives restarts, and is re-read before
+ * every decision so a resume through the API reaches a bot running in another process.
+ */
+export class RiskManager {
+    private scope: string;
+    private limits: RiskLimits;
+    private stateFile: string;
+    private state: RiskState;
+
+    constructor(scope: string, limits: RiskLimits, stateDir: string = RISK_STATE_DIR) {
+        this.scope = scope;
+        this.limits = limits;
+        this.stateFile = riskStateFile(scope, stateDir);
+
+        if (!fs.existsSync(stateDir)) {
+            fs.mkdirSync(stateDir, { recursive: true });
+        }
+
+        this.state = readRiskState(this.stateFile) ?? emptyState(scope);
+        if (this.state.paused) {
+            logWarning(`[${scope}] Trading paused since ${new Date(this.state.pausedAt ?? 0).toISOString()}: ${this.state.pauseReason}`);
+        }
+    }
+
+    isPaused(): boolean {
+        this.reload();
+        return this.state.paused;
+    }
+
+    getState(): RiskState {
+        this.reload();
+        return { ...this.state };
+    }
+
+    check(trade: RiskCheck): RiskDecision {
+        this.reload();
+        if (this.state.paused) {
+            return { allowed: false, reason: `Paused: ${this.state.pauseReason}` };
+        }
+
+        if (trade.balanceWei < toWei(this.limits.minBalance)) {
+            this.pause(`Wallet balance below ${this.limits.minBalance}`);
+            return { allowed: false, reason: this.state.pauseReason! };
+        }
+
+        const cap = Number(trade.tokenLimitQuote ?? this.limits.maxNotionalQuote);
+        if (trade.notionalQuote > cap) {
+            return { allowed: false, reason: `Notional ${trade.notionalQuote.toFixed(2)} over cap ${cap}` };
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * Books the outcome of a trade that reached the chain (or the relay) and pauses the scope
+     * if it pushed any limit over.
+     */
+    recordResult(result: RiskResult): void {
+        this.reload();
+        const now = Date.now();
+
+        metrics.trades.inc({ scope: this.scope, result: result.reverted ? 'reverted' : 'ok' });
+        metrics.gasSpent.inc({ scope: this.scope }, Number(result.gasCostWei) / 1e18);
+        metrics.realisedPnl.add({ scope: this.scope }, result.netProfitQuote);
+
+        this.state.consecutiveReverts = result.reverted ? this.state.consecutiveReverts + 1 : 0;
+
+        const today = utcDay(now);
+        if (this.state.day !== today) {
+            this.state.day = today;
+            this.state.dailyNetQuote = 0;
+        }
+        this.state.dailyNetQuote += result.netProfitQuote;
+
+        this.state.gasSpent = this.state.gasSpent.filter(entry => now - entry.at < GAS_WINDOW_MS);
+        if (result.gasCostWei > 0n) {
+            this.state.gasSpent.push({ at: now, wei: result.gasCostWei.toString() });
+        }
+        const hourlyGas = this.state.gasSpent.reduce((sum, entry) => sum + BigInt(entry.wei), 0n);
+
+        if (this.state.consecutiveReverts >= this.limits.maxConsecutiveReverts) {
+            this.pause(`${this.state.consecutiveReverts} consecutive reverts`);
+        } else if (hourlyGas > toWei(this.limits.maxGasPerHour)) {
+            this.pause(`Gas spent in the last hour over ${this.limits.maxGasPerHour}`);
+        } else if (this.state.dailyNetQuote < -Number(this.limits.maxDailyLossQuote)) {
+            this.pause(`Daily net loss ${(-this.state.dailyNetQuote).toFixed(2)} over ${this.limits.maxDailyLossQuote}`);
+        } else {
+            this.save();
+        }
+    }
+
+    pause(reason: string): void {
+        this.state.paused = true;
+        this.state.pauseReason = reason;
+        this.state.pausedAt = Date.now();
+        this.save();
+        logError(`[${this.scope}] Circuit breaker tripped, trading paused`, new Error(reason));
+    }
+
+    private reload(): void {
+        this.state = readRiskState(this.stateFile) ?? this.state;
+    }
+
+    private save(): void {
+        writeRiskState(this.stateFile, this.state);
+    }
+}
+
+/**
+ * Every scope with persisted risk state, for the API.
+ */
+export function listRiskStates(stateDir: string = RISK_STATE_DIR): RiskState[] {
+    if (!fs.existsSync(stateDir)) return [];
+
+    return fs.readdirSync(stateDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => readRiskState(path.join(stateDir, file)))
+        .filter((state): state is RiskState => state !== null);
+}
+
+/**
+ * Clears a pause and resets every counter that can trip one: the revert streak, the gas spent
+ * in the last hour and today's net PnL. Resuming accepts what was lost so far, and the limits
+ * apply afresh from here; otherwise the next result, even a profitable one, would pause again.
+ * Returns the new state, or null if the scope has never recorded anything.
+ */
+export function resumeRiskScope(scope: string, stateDir: string = RISK_STATE_DIR): RiskState | null {
+    const stateFile = riskStateFile(scope, stateDir);
+    const state = readRiskState(stateFile);
+    if (!state) return null;
+
+    state.paused = false;
+    state.pauseReason = undefined;
+    state.resumedAt = Date.now();
+    state.consecutiveReverts = 0;
+    state.gasSpent = [];
+    state.day = utcDay(state.resumedAt);
+    state.dailyNetQuote = 0;
+    writeRiskState(stateFile, state);
+
+    logInfo(`[${scope}] Trading resumed manually`);
+    return state;
+}
+
+function riskStateFile(scope: string, stateDir: string): string {
+    return path.join(stateDir, `${scope.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+}
+
+function readRiskState(stateFile: string): RiskState | null {
+    try {
+        return JSON.parse(fs.readFileSync(stateFile, 'utf8'));
+    } catch {
+        return null;
+    }
+}
+
+function writeRiskState(stateFile: string, state: RiskState): void {
+    // Write then rename so a reader in another process never sees half a file
+    const tmpFile = `${stateFile}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpFile, stateFile);
+}
+
+function emptyState(scope: string): RiskState {
+    return {
+        scope,
+        paused: false,
+        consecutiveReverts: 0,
+        day: utcDay(Date.now()),
+        dailyNetQuote: 0,
+        gasSpent: []
+    };
+}
+
+function utcDay(time: number): string {
+    return new Date(time).toISOString().split('T')[0];
+}
+
+// Decimal native amount ("0.5") to wei without pulling in a particular ethers version
+function toWei(amount: string): bigint {
+    const [whole, fraction = ''] = amount.split('.');
+    return BigInt(whole) * WEI_PER_NATIVE + BigInt(fraction.padEnd(18, '0').slice(0, 18));
+}
@@ -0,0 +1,107 @@
+// src/settlement.ts
+
+import { ethers } from 'ethers';
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address account) external view returns (uint256)'];
+
+// The event profit and the balance change may differ by rounding dust
+const RECONCILE_TOLERANCE_BPS = 10;
+
+export interface Settlement {
+    profit: ethers.BigNumber | null; // From ArbitrageExecuted; null if the receipt has none for the token
+    balanceDelta: ethers.BigNumber | null; // Change of the holders' token balance over the block; null if the node cannot serve it
+    reconciled: boolean; // Both are known and agree within tolerance
+}
+
+/**
+ * The gas price the transaction actually paid. Receipts carry it on EIP-1559 chains; where
+ * they do not, it is rebuilt from the block's base fee and the transaction's fee caps.
+ */
+export async function effectiveGasPrice(
+    provider: ethers.providers.Provider,
+    receipt: ethers.providers.TransactionReceipt
+): Promise<ethers.BigNumber> {
+    if (receipt.effectiveGasPrice) return receipt.effectiveGasPrice;
+
+    const tx = await provider.getTransaction(receipt.transactionHash);
+    if (tx.maxFeePerGas && tx.maxPriorityFeePerGas) {
+        const block = await provider.getBlock(receipt.blockNumber);
+        const tipped = (block.baseFeePerGas ?? ethers.constants.Zero).add(tx.maxPriorityFeePerGas);
+        return tipped.lt(tx.maxFeePerGas) ? tipped : tx.maxFeePerGas;
+    }
+    return tx.gasPrice!;
+}
+
+/**
+ * Sums the `profit` of every ArbitrageExecuted log the contract emitted for `token`.
+ */
+export function decodeArbitrageProfit(
+    contract: ethers.Contract,
+    receipt: ethers.providers.TransactionReceipt,
+    token: string
+): ethers.BigNumber | null {
+    let profit: ethers.BigNumber | null = null;
+
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== contract.address.toLowerCase()) continue;
+
+        let parsed: ethers.utils.LogDescription;
+        try {
+            parsed = contract.interface.parseLog(log);
+        } catch {
+            continue; // Not in the ABI
+        }
+        if (parsed.name !== 'ArbitrageExecuted') continue;
+        if (parsed.args.tokenBorrowed.toLowerCase() !== token.toLowerCase()) continue;
+
+        profit = (profit ?? ethers.constants.Zero).add(parsed.args.profit);
+    }
+    return profit;
+}
+
+/**
+ * How much `token` the holders gained over the block the receipt is in. Anything else that
+ * moved their balance in the same block shows up here too, which is why it is only used to
+ * cross-check the event.
+ */
+export async function tokenBalanceDelta(
+    provider: ethers.providers.Provider,
+    token: string,
+    holders: string[],
+    blockNumber: number
+): Promise<ethers.BigNumber | null> {
+    const erc20 = new ethers.Contract(token, ERC20_BALANCE_ABI, provider);
+    const total = async (blockTag: number) => {
+        const balances: ethers.BigNumber[] = await Promise.all(holders.map(h => erc20.balanceOf(h, { blockTag })));
+        return balances.reduce((sum, b) => sum.add(b), ethers.constants.Zero);
+    };
+
+    try {
+        const [before, after] = await Promise.all([total(blockNumber - 1), total(blockNumber)]);
+        return after.sub(before);
+    } catch {
+        // Pruned nodes may not serve balances at an older block
+        return null;
+    }
+}
+
+/**
+ * Realised profit of a mined arbitrage: the contract's event, checked against the token
+ * balances of the wallet and the contract.
+ */
+export async function settleTrade(
+    contract: ethers.Contract,
+    receipt: ethers.providers.TransactionReceipt,
+    token: string,
+    holders: string[]
+): Promise<Settlement> {
+    const profit = decodeArbitrageProfit(contract, receipt, token);
+    const balanceDelta = await tokenBalanceDelta(contract.provider, token, holders, receipt.blockNumber);
+
+    let reconciled = false;
+    if (profit && balanceDelta) {
+        const tolerance = profit.abs().mul(RECONCILE_TOLERANCE_BPS).div(10_000);
+        reconciled = profit.sub(balanceDelta).abs().lte(tolerance);
+    }
+    return { profit, balanceDelta, reconciled };
+}
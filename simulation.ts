@@ -0,0 +1,82 @@
+// src/simulation.ts
+
+import { ethers } from 'ethers';
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+export interface SimulationResult {
+    success: boolean;
+    gasEstimate?: ethers.BigNumber;
+    revertReason?: string;
+}
+
+function findRevertData(error: any): string | undefined {
+    // ethers v5 nests the JSON-RPC error differently depending on the backend
+    for (let e = error; e; e = e.error) {
+        if (typeof e.data === 'string' && e.data.startsWith('0x')) return e.data;
+        if (typeof e.data?.data === 'string') return e.data.data;
+    }
+    return undefined;
+}
+
+/**
+ * Turns an eth_call / eth_estimateGas failure into a readable revert reason.
+ */
+export function decodeRevertReason(error: any): string {
+    const data = findRevertData(error);
+
+    if (data && data.length >= 10) {
+        const selector = data.slice(0, 10);
+        try {
+            if (selector === ERROR_SELECTOR) {
+                return ethers.utils.defaultAbiCoder.decode(['string'], '0x' + data.slice(10))[0];
+            }
+            if (selector === PANIC_SELECTOR) {
+                const code = ethers.utils.defaultAbiCoder.decode(['uint256'], '0x' + data.slice(10))[0];
+                return `Panic(0x${code.toNumber().toString(16)})`;
+            }
+        } catch {
+            // Fall through to the generic reason
+        }
+        return `Custom error ${selector}`;
+    }
+
+    return error?.reason || error?.message || 'Unknown revert';
+}
+
+/**
+ * Dry-runs a contract call against the pending block and estimates its gas.
+ * Never throws; a revert is reported through `success` and `revertReason`.
+ */
+export async function simulateCall(
+    contract: ethers.Contract,
+    method: string,
+    args: any[],
+    overrides: ethers.PayableOverrides = {}
+): Promise<SimulationResult> {
+    try {
+        await contract.callStatic[method](...args, { ...overrides, blockTag: 'pending' });
+        const gasEstimate: ethers.BigNumber = await contract.estimateGas[method](...args, overrides);
+        return { success: true, gasEstimate };
+    } catch (error: any) {
+        return { success: false, revertReason: decodeRevertReason(error) };
+    }
+}
+
+/**
+ * Same as simulateCall for a raw transaction from the signer, e.g. one that starts a flash
+ * loan at a lender rather than calling the arbitrage contract.
+ */
+export async function simulateTransaction(
+    signer: ethers.Signer,
+    tx: ethers.providers.TransactionRequest
+): Promise<SimulationResult> {
+    try {
+        await signer.call(tx, 'pending');
+        const gasEstimate = await signer.estimateGas(tx);
+        return { success: true, gasEstimate };
+    } catch (error: any) {
+        return { success: false, revertReason: decodeRevertReason(error) };
+    }
+}
@@ -0,0 +1,166 @@
+// src/sizing.ts
+
+import { PoolState, getReservesFor, quoteSwap } from './poolstate';
+
+export type SizeLimit = 'optimal' | 'liquidity' | 'exposure';
+
+/**
+ * One swap of a route: tokenIn is sold into pool for the pool's other token.
+ */
+export interface SwapHop {
+    pool: PoolState;
+    tokenIn: string;
+}
+
+export interface SizingResult {
+    borrowAmount: bigint;
+    expectedProfit: bigint;
+    limitedBy: SizeLimit;
+    profitCurve: Array<{ borrowAmount: bigint; profit: bigint }>;
+}
+
+export interface SizingLimits {
+    flashLoanFeeBps: number;
+    maxPoolSharePercent: number; // Largest borrow as a percentage of the first pool's input reserve
+    maxBorrow?: bigint; // Per-token exposure cap, in base units of the borrowed token
+}
+
+// Multiples of the chosen size (in percent) sampled for the recorded profit curve
+const CURVE_POINTS = [25, 50, 75, 100, 125, 150, 200];
+
+// Ternary search for routes without a closed form; stops at 0.01% of the bracket
+const SEARCH_ITERATIONS = 100;
+const SEARCH_PRECISION_BPS = 1n;
+
+function sqrt(value: bigint): bigint {
+    if (value < 2n) return value;
+
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+        x = y;
+        y = (x + value / x) / 2n;
+    }
+    return x;
+}
+
+export function otherToken(pool: PoolState, token: string): string {
+    return token.toLowerCase() === pool.token0.toLowerCase() ? pool.token1 : pool.token0;
+}
+
+/**
+ * Builds the hops for the classic two-leg trade: tokenA -> tokenB on buyPool, back on sellPool.
+ */
+export function twoLegHops(buyPool: PoolState, sellPool: PoolState, tokenA: string): SwapHop[] {
+    return [
+        { pool: buyPool, tokenIn: tokenA },
+        { pool: sellPool, tokenIn: otherToken(buyPool, tokenA) }
+    ];
+}
+
+/**
+ * Net profit of borrowing `amount` of the first hop's input token, swapping through every
+ * hop and repaying the loan plus fee. Uses the same integer rounding as the pairs.
+ */
+export function simulateRoute(amount: bigint, hops: SwapHop[], flashLoanFeeBps: number): bigint {
+    let amountOut = amount;
+    for (const hop of hops) {
+        amountOut = quoteSwap(hop.pool, hop.tokenIn, amountOut);
+    }
+
+    const repayAmount = amount * BigInt(10000 + flashLoanFeeBps) / 10000n;
+    return amountOut - repayAmount;
+}
+
+/**
+ * Unconstrained optimum of an all-V2 route. Any chain of constant-product swaps collapses
+ * to out(x) = A·x / (B + C·x), so with a repayment of k·x the profit is maximised at
+ * x* = (sqrt(A·B / k) − B) / C.
+ */
+function constantProductOptimum(hops: SwapHop[], flashLoanFeeBps: number): bigint | null {
+    // Fold each hop f(x) = g·rOut·x / (1e4·rIn + g·x) into the running A, B, C
+    let a = 1n;
+    let b = 1n;
+    let c = 0n;
+    for (const hop of hops) {
+        const [reserveIn, reserveOut] = getReservesFor(hop.pool, hop.tokenIn);
+        if (reserveIn === 0n || reserveOut === 0n) return null;
+
+        const g = BigInt(10000 - hop.pool.dex.feeBps);
+        c = 10000n * reserveIn * c + g * a;
+        b = 10000n * reserveIn * b;
+        a = g * reserveOut * a;
+    }
+
+    const kNum = BigInt(10000 + flashLoanFeeBps);
+    const root = sqrt(a * b * 10000n / kNum);
+    if (root <= b) return null;
+
+    return (root - b) / c;
+}
+
+/**
+ * Optimum of a route with V3 hops, by ternary search on the simulated profit up to `upper`.
+ * Profit along a route of swaps is concave in the amount, tick crossings included.
+ */
+function searchOptimum(hops: SwapHop[], flashLoanFeeBps: number, upper: bigint): bigint | null {
+    let lo = 0n;
+    let hi = upper;
+    const precision = upper * SEARCH_PRECISION_BPS / 10000n;
+
+    for (let i = 0; i < SEARCH_ITERATIONS && hi - lo > precision && hi - lo > 2n; i++) {
+        const m1 = lo + (hi - lo) / 3n;
+        const m2 = hi - (hi - lo) / 3n;
+        if (simulateRoute(m1, hops, flashLoanFeeBps) < simulateRoute(m2, hops, flashLoanFeeBps)) {
+            lo = m1;
+        } else {
+            hi = m2;
+        }
+    }
+
+    const best = (lo + hi) / 2n;
+    return simulateRoute(best, hops, flashLoanFeeBps) > 0n ? best : null;
+}
+
+/**
+ * Finds the borrow amount that maximises net profit for a cyclic route: in closed form when
+ * every hop is a V2 pair, by search otherwise. The result is then capped by pool liquidity
+ * (virtual reserves for a V3 first hop) and the token's exposure limit. Returns null when
+ * the route is unprofitable at every size.
+ */
+export function solveOptimalBorrow(hops: SwapHop[], limits: SizingLimits): SizingResult | null {
+    const [firstReserveIn] = getReservesFor(hops[0].pool, hops[0].tokenIn);
+    const liquidityCap = firstReserveIn * BigInt(limits.maxPoolSharePercent) / 100n;
+
+    // Searching past the cap lets an optimum beyond it be reported as limited by liquidity
+    const optimum = hops.some(hop => hop.pool.v3)
+        ? searchOptimum(hops, limits.flashLoanFeeBps, liquidityCap * 2n)
+        : constantProductOptimum(hops, limits.flashLoanFeeBps);
+    if (optimum === null) return null;
+
+    let borrowAmount = optimum;
+    let limitedBy: SizeLimit = 'optimal';
+
+    if (borrowAmount > liquidityCap) {
+        borrowAmount = liquidityCap;
+        limitedBy = 'liquidity';
+    }
+    if (limits.maxBorrow !== undefined && borrowAmount > limits.maxBorrow) {
+        borrowAmount = limits.maxBorrow;
+        limitedBy = 'exposure';
+    }
+    if (borrowAmount <= 0n) return null;
+
+    const expectedProfit = simulateRoute(borrowAmount, hops, limits.flashLoanFeeBps);
+    if (expectedProfit <= 0n) return null;
+
+    const profitCurve = CURVE_POINTS.map(pct => {
+        const amount = borrowAmount * BigInt(pct) / 100n;
+        return {
+            borrowAmount: amount,
+            profit: simulateRoute(amount, hops, limits.flashLoanFeeBps)
+        };
+    });
+
+    return { borrowAmount, expectedProfit, limitedBy, profitCurve };
+}
@@ -0,0 +1,151 @@
+// src/supervisor.ts
+
+import { logError, logInfo, logWarning } from './utils/logger';
+import { BotStatus, ChainConfig } from './types';
+
+export interface SupervisedBot {
+    start(): Promise<void>;
+    stop(): void;
+    getStatus(): BotStatus;
+}
+
+export interface SupervisedChain {
+    config: ChainConfig;
+    privateKey: string;
+    label?: string; // Name in logs and status; defaults to the chain name
+}
+
+export type ChainRunState = 'starting' | 'running' | 'restarting' | 'stopped';
+
+export interface ChainRunStatus {
+    chain: string;
+    state: ChainRunState;
+    restarts: number;
+    lastError?: string;
+    bot?: BotStatus;
+}
+
+const RESTART_BASE_DELAY_MS = 5_000;
+const RESTART_MAX_DELAY_MS = 5 * 60_000;
+const WATCHDOG_INTERVAL_MS = 30_000;
+const STALE_SCAN_MS = 2 * 60_000; // A running bot with no completed scan for this long is restarted
+
+interface ChainRunner<T extends SupervisedChain> {
+    chain: T;
+    label: string;
+    bot: SupervisedBot | null;
+    state: ChainRunState;
+    restarts: number;
+    lastError?: string;
+    restartTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs one bot per chain in a single process (plus any paper-trading shadows, which are
+ * supervised as chains of their own). Each chain gets a fresh bot (and with it its
+ * own providers, wallet and nonce state) whenever it is (re)started, so a crash or a stalled
+ * RPC on one chain is retried with backoff without touching the others.
+ */
+export class MultiChainSupervisor<T extends SupervisedChain = SupervisedChain> {
+    private runners: ChainRunner<T>[];
+    private createBot: (chain: T) => SupervisedBot;
+    private watchdog: NodeJS.Timeout | null = null;
+    private stopping: boolean = false;
+
+    constructor(chains: T[], createBot: (chain: T) => SupervisedBot) {
+        this.runners = chains.map(chain => ({
+            chain,
+            label: chain.label ?? chain.config.name,
+            bot: null,
+            state: 'stopped',
+            restarts: 0
+        }));
+        this.createBot = createBot;
+    }
+
+    async start(): Promise<void> {
+        this.stopping = false;
+        await Promise.all(this.runners.map(runner => this.startRunner(runner)));
+        this.watchdog = setInterval(() => this.checkHealth(), WATCHDOG_INTERVAL_MS);
+
+        const running = this.runners.filter(r => r.state === 'running').length;
+        logInfo(`Supervisor started ${running}/${this.runners.length} chains`);
+    }
+
+    stop(): void {
+        this.stopping = true;
+        if (this.watchdog) clearInterval(this.watchdog);
+
+        for (const runner of this.runners) {
+            clearTimeout(runner.restartTimer);
+            this.stopBot(runner);
+            runner.state = 'stopped';
+        }
+        logInfo('Supervisor stopped all chains');
+    }
+
+    getStatus(): { running: number; total: number; chains: ChainRunStatus[] } {
+        const chains = this.runners.map(runner => ({
+            chain: runner.label,
+            state: runner.state,
+            restarts: runner.restarts,
+            lastError: runner.lastError,
+            bot: runner.bot?.getStatus()
+        }));
+        return {
+            running: chains.filter(c => c.state === 'running').length,
+            total: chains.length,
+            chains
+        };
+    }
+
+    private async startRunner(runner: ChainRunner<T>): Promise<void> {
+        runner.state = 'starting';
+        try {
+            runner.bot = this.createBot(runner.chain);
+            await runner.bot.start();
+            runner.state = 'running';
+            runner.lastError = undefined;
+        } catch (error: any) {
+            logError(`[${runner.label}] Failed to start`, error);
+            this.scheduleRestart(runner, error);
+        }
+    }
+
+    private scheduleRestart(runner: ChainRunner<T>, error: Error): void {
+        if (this.stopping || runner.state === 'restarting') return;
+
+        this.stopBot(runner);
+        runner.state = 'restarting';
+        runner.lastError = error.message;
+
+        const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** runner.restarts, RESTART_MAX_DELAY_MS);
+        runner.restarts++;
+        logWarning(`[${runner.label}] Restarting in ${delay / 1000}s`, { restarts: runner.restarts, error: error.message });
+
+        runner.restartTimer = setTimeout(() => this.startRunner(runner), delay);
+    }
+
+    private checkHealth(): void {
+        const now = Date.now();
+        for (const runner of this.runners) {
+            if (runner.state !== 'running' || !runner.bot) continue;
+
+            const status = runner.bot.getStatus();
+            const lastActivity = status.lastScanAt ?? status.startedAt ?? now;
+            if (now - lastActivity > STALE_SCAN_MS) {
+                this.scheduleRestart(runner, new Error(`No completed scan for ${Math.round((now - lastActivity) / 1000)}s`));
+            }
+        }
+    }
+
+    private stopBot(runner: ChainRunner<T>): void {
+        if (!runner.bot) return;
+        try {
+            runner.bot.stop();
+        } catch (error: any) {
+            logWarning(`[${runner.label}] Error while stopping bot`, { error: error.message });
+        }
+        runner.bot = null;
+    }
+}
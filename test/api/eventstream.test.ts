@@ -0,0 +1,136 @@
+// test/api/eventstream.test.ts
+
+import WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import { EventStreamServer } from '../../src/api/eventstream';
+import { eventBus } from '../../src/events';
+
+// A client that queues every frame it receives
+class Client {
+    private socket: WebSocket;
+    private frames: any[] = [];
+    private waiting: ((frame: any) => void) | null = null;
+
+    constructor(port: number) {
+        this.socket = new WebSocket(`ws://127.0.0.1:${port}`);
+        this.socket.on('message', (raw) => {
+            const frame = JSON.parse(raw.toString());
+            if (this.waiting) {
+                this.waiting(frame);
+                this.waiting = null;
+            } else {
+                this.frames.push(frame);
+            }
+        });
+    }
+
+    next(): Promise<any> {
+        if (this.frames.length > 0) return Promise.resolve(this.frames.shift());
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('No frame within 2s')), 2_000);
+            this.waiting = (frame) => {
+                clearTimeout(timer);
+                resolve(frame);
+            };
+        });
+    }
+
+    send(data: string | object): void {
+        this.socket.send(typeof data === 'string' ? data : JSON.stringify(data));
+    }
+
+    close(): void {
+        this.socket.close();
+    }
+}
+
+function publishSent(chain: string, txHash: string): void {
+    eventBus.publish({ type: 'tx_sent', chain, tradeId: `TRADE-${chain}`, txHash });
+}
+
+describe('EventStreamServer', () => {
+    let server: EventStreamServer;
+    let port: number;
+    const clients: Client[] = [];
+
+    const connect = async () => {
+        const client = new Client(port);
+        clients.push(client);
+        expect(await client.next()).toMatchObject({ type: 'welcome' });
+        return client;
+    };
+
+    beforeEach(async () => {
+        server = new EventStreamServer(0);
+        server.start();
+        const wss = server['wss']!;
+        await new Promise(resolve => wss.once('listening', resolve));
+        port = (wss.address() as AddressInfo).port;
+    });
+
+    afterEach(() => {
+        clients.splice(0).forEach(client => client.close());
+        server.stop();
+    });
+
+    it('sends every event to a client that has not subscribed', async () => {
+        const client = await connect();
+
+        publishSent('Polygon', '0x01');
+        eventBus.publish({ type: 'nonce_resync', chain: 'Base', address: '0xab', previousNonce: 1, nonce: 2, reason: 'periodic' });
+
+        expect(await client.next()).toMatchObject({ type: 'event', event: { type: 'tx_sent', chain: 'Polygon', txHash: '0x01' } });
+        expect(await client.next()).toMatchObject({ type: 'event', event: { type: 'nonce_resync', chain: 'Base' } });
+    });
+
+    it('filters by chain and by event type', async () => {
+        const polygon = await connect();
+        const receipts = await connect();
+        polygon.send({ type: 'subscribe', chains: ['Polygon'] });
+        receipts.send({ type: 'subscribe', events: ['tx_receipt'] });
+        expect(await polygon.next()).toEqual({ type: 'subscribed', chains: ['Polygon'], events: 'all' });
+        expect(await receipts.next()).toEqual({ type: 'subscribed', chains: 'all', events: ['tx_receipt'] });
+
+        publishSent('Base', '0x01');
+        publishSent('Polygon', '0x02');
+        eventBus.publish({ type: 'tx_receipt', chain: 'Base', tradeId: 'TRADE-Base', txHash: '0x01', status: 'success', blockNumber: 7, gasUsed: '21000' });
+
+        // Frames arrive in order, so the first one each client gets is the first that matched
+        expect(await polygon.next()).toMatchObject({ event: { type: 'tx_sent', txHash: '0x02' } });
+        expect(await receipts.next()).toMatchObject({ event: { type: 'tx_receipt', chain: 'Base' } });
+    });
+
+    it('replaces a subscription rather than adding to it', async () => {
+        const client = await connect();
+        client.send({ type: 'subscribe', chains: ['Polygon'] });
+        await client.next();
+        client.send({ type: 'subscribe', chains: ['Base'] });
+        await client.next();
+
+        publishSent('Polygon', '0x01');
+        publishSent('Base', '0x02');
+        expect(await client.next()).toMatchObject({ event: { chain: 'Base', txHash: '0x02' } });
+    });
+
+    it('answers malformed messages with an error and keeps the connection', async () => {
+        const client = await connect();
+
+        const cases: Array<[string | object, string]> = [
+            ['not json', 'Messages must be JSON'],
+            ['[1,2]', 'Messages must be JSON objects'],
+            ['null', 'Messages must be JSON objects'],
+            [{ type: 'unsubscribe' }, 'Unknown message type: unsubscribe'],
+            [{ type: 'subscribe', chains: 'Polygon' }, 'chains must be an array'],
+            [{ type: 'subscribe', events: ['tx_sent', 'block'] }, 'Unknown event types: block']
+        ];
+        for (const [message, error] of cases) {
+            client.send(message);
+            expect(await client.next()).toEqual({ type: 'error', error });
+        }
+
+        // None of them changed what the client receives
+        publishSent('Base', '0x01');
+        expect(await client.next()).toMatchObject({ event: { chain: 'Base' } });
+        expect(server.getClientCount()).toBe(1);
+    });
+});
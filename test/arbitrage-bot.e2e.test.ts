@@ -0,0 +1,146 @@
+// test/arbitrage-bot.e2e.test.ts
+
+import { ethers } from 'ethers';
+import { FlashLoanArbitrageBot } from '../src/arbitrage-bot';
+import { TradeLogger, TRADE_BOOK_FILES } from '../src/utils/tradelogger';
+import { DEFAULT_RISK_LIMITS } from '../src/riskmanager';
+import { solveOptimalBorrow } from '../src/sizing';
+import * as settlement from '../src/settlement';
+import { ChainConfig, Opportunity } from '../src/types';
+import { startChain, deployMarket, LocalChain, Market, OWNER_KEY, CHAIN_ID } from './helpers/chain';
+
+function localChainConfig(chain: LocalChain, market: Market): ChainConfig {
+    return {
+        name: 'Local',
+        rpcHttp: [chain.url],
+        rpcWss: [chain.wsUrl],
+        chainId: CHAIN_ID,
+        contractAddress: market.arbitrage.address,
+        gasToken: 'ETH',
+        wrappedNative: market.weth.address,
+        quoteToken: 'USDC',
+        dexes: market.dexes.map(dex => ({ name: dex.name, kind: 'v2', router: dex.router, factory: dex.factory, feeBps: dex.feeBps })),
+        tokens: [
+            { symbol: 'WETH', address: market.weth.address, decimals: 18 },
+            { symbol: 'USDC', address: market.usdc.address, decimals: 6 }
+        ],
+        maxPriorityFee: ethers.utils.parseUnits('1', 'gwei').toBigInt(),
+        minBalance: '0.1',
+        risk: DEFAULT_RISK_LIMITS,
+        flashLoanProviders: [{ kind: 'aave', name: 'Aave', address: market.aavePool.address, feeBps: 9 }]
+    };
+}
+
+describe('FlashLoanArbitrageBot against a local chain', () => {
+    let chain: LocalChain;
+    let market: Market;
+    let bot: FlashLoanArbitrageBot;
+
+    beforeAll(async () => {
+        // Transpiling the bot on first use must not count against the trade's latency budget
+        process.env.SCAN_LATENCY_BUDGET_MS = '60000';
+
+        chain = await startChain();
+        market = await deployMarket(chain);
+        const [alpha, beta] = market.dexes;
+        // WETH is 5% dearer on Beta
+        await market.addLiquidity(alpha, '100', '200000');
+        await market.addLiquidity(beta, '100', '210000');
+
+        bot = new FlashLoanArbitrageBot(localChainConfig(chain, market), OWNER_KEY);
+        await bot['nonces'].initialize();
+        await bot['pricing'].refreshGasPrice();
+    });
+
+    afterAll(async () => {
+        bot?.stop();
+        await chain?.close();
+    });
+
+    it('finds the gap between the two DEXes and sizes it at the closed-form optimum', async () => {
+        const opportunities: Opportunity[] = await bot['finder'].findOpportunities();
+        expect(opportunities).toHaveLength(1);
+
+        const [opp] = opportunities;
+        expect(opp.id).toBe('WETH/USDC');
+        expect(opp.buyDexName).toBe('Beta');
+        expect(opp.sellDexName).toBe('Alpha');
+        expect(opp.flashLoan.provider.name).toBe('Aave');
+        expect(opp.sizeLimitedBy).toBe('optimal');
+
+        const sizing = solveOptimalBorrow(opp.hops, { flashLoanFeeBps: 9, maxPoolSharePercent: 30 })!;
+        expect(opp.borrowAmount.toBigInt()).toBe(sizing.borrowAmount);
+        expect(opp.estimatedProfit.toBigInt()).toBe(sizing.expectedProfit);
+    });
+
+    it('executes the opportunity through the Aave flash loan and books the realised profit', async () => {
+        const [opp]: Opportunity[] = await bot['finder'].findOpportunities();
+        const nonceBefore = await chain.provider.getTransactionCount(chain.owner.address);
+        const wethBefore: ethers.BigNumber = await market.weth.balanceOf(market.arbitrage.address);
+
+        await bot['executeOpportunity'](opp, Date.now());
+
+        const trades = new TradeLogger(TRADE_BOOK_FILES.live).getTrades({ status: 'success' });
+        expect(trades).toHaveLength(1);
+        const [trade] = trades;
+        expect(trade).toMatchObject({ status: 'success', txOutcome: 'mined', reconciled: true, lender: 'Aave' });
+
+        // The contract keeps the profit; it is what the event reported
+        const wethAfter: ethers.BigNumber = await market.weth.balanceOf(market.arbitrage.address);
+        const profit = wethAfter.sub(wethBefore);
+        expect(profit.gt(0)).toBe(true);
+        expect(trade.actualProfit).toBe(ethers.utils.formatEther(profit));
+
+        // Pools move exactly as the sizing predicted; only Aave rounding its premium half up,
+        // where the sizing rounds down, can cost a wei
+        const shortfall = opp.estimatedProfit.toBigInt() - profit.toBigInt();
+        expect(shortfall >= 0n && shortfall <= 1n).toBe(true);
+
+        expect(await chain.provider.getTransactionCount(chain.owner.address)).toBe(nonceBefore + 1);
+        expect(bot['nonces'].getCurrentNonce()).toBe(nonceBefore + 1);
+        expect(bot['nonces'].getGaps()).toEqual([]);
+    });
+
+    it('finds nothing left to trade once the gap is closed', async () => {
+        // The Sync logs of the trade reach the cache over the WebSocket
+        const [alpha, beta] = market.dexes;
+        const reserves = async (dex: typeof alpha) => (await (await market.pair(dex)).getReserves())[0].toBigInt();
+        const expected = [await reserves(alpha), await reserves(beta)];
+        await waitFor(async () => {
+            const cached = await Promise.all(market.dexes.map(dex => bot['poolCache'].getPool(
+                { name: dex.name, kind: 'v2', router: dex.router, factory: dex.factory, feeBps: dex.feeBps },
+                { symbol: 'WETH', address: market.weth.address, decimals: 18 },
+                { symbol: 'USDC', address: market.usdc.address, decimals: 6 }
+            )));
+            return cached.every((pool, i) => pool && pool.reserve0 === expected[i]);
+        });
+
+        expect(await bot['finder'].findOpportunities()).toEqual([]);
+    });
+
+    it('books the gas of a mined trade it cannot settle and counts it against the risk limits', async () => {
+        // WETH dearer on Beta again. The owner mints, so the bot picks up its nonce from the node
+        await market.addLiquidity(market.dexes[1], '0', '10000');
+        await bot['nonces'].resyncIfNeeded(true);
+        await waitFor(async () => (await bot['finder'].findOpportunities()).length === 1);
+        const [opp]: Opportunity[] = await bot['finder'].findOpportunities();
+
+        jest.spyOn(settlement, 'settleTrade').mockRejectedValueOnce(new Error('header not found'));
+        const gasEntries = bot['risk'].getState().gasSpent.length;
+        await bot['executeOpportunity'](opp, Date.now());
+
+        const trade = new TradeLogger(TRADE_BOOK_FILES.live).getTrades({ status: 'success' }).find(t => t.pair === opp.id && t.error);
+        expect(trade).toMatchObject({ error: 'Settlement failed: header not found', txOutcome: 'mined' });
+        const receipt = await chain.provider.getTransactionReceipt(trade!.txHash!);
+        expect(trade!.gasCost).toBe(ethers.utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice)));
+        expect(bot['risk'].getState().gasSpent).toHaveLength(gasEntries + 1);
+    });
+});
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs: number = 10_000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!await condition()) {
+        if (Date.now() > deadline) throw new Error('Condition not met in time');
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+}
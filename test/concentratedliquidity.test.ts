@@ -0,0 +1,104 @@
+// test/concentratedliquidity.test.ts
+
+import {
+    ConcentratedLiquidity,
+    TickLiquidity,
+    Q96,
+    MIN_TICK,
+    MAX_TICK,
+    getSqrtRatioAtTick,
+    swapExactIn,
+    virtualReserves
+} from '../src/concentratedliquidity';
+import { getAmountOut } from '../src/poolstate';
+
+const ONE = 10n ** 18n;
+const L = 1_000n * ONE;
+const FEE_BPS = 30;
+
+// Price 1 at tick 0, with the given initialized ticks and a window of ±6000 ticks
+function pool(liquidity: bigint, ticks: TickLiquidity[] = []): ConcentratedLiquidity {
+    return { sqrtPriceX96: Q96, tick: 0, liquidity, tickSpacing: 60, ticks, lowerTick: -6000, upperTick: 6000 };
+}
+
+describe('getSqrtRatioAtTick', () => {
+    it('matches TickMath at the ends of the range and at price 1', () => {
+        expect(getSqrtRatioAtTick(0)).toBe(Q96);
+        expect(getSqrtRatioAtTick(MIN_TICK)).toBe(4295128739n);
+        expect(getSqrtRatioAtTick(MAX_TICK)).toBe(1461446703485210103287273052203988822378723970342n);
+    });
+
+    it('moves by sqrt(1.0001) per tick', () => {
+        const ratio = Number(getSqrtRatioAtTick(1)) / Number(Q96);
+        expect(ratio).toBeCloseTo(Math.sqrt(1.0001), 12);
+        expect(Number(getSqrtRatioAtTick(-1)) / Number(Q96)).toBeCloseTo(1 / Math.sqrt(1.0001), 12);
+    });
+
+    it('rejects ticks outside the range', () => {
+        expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow('out of range');
+        expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow('out of range');
+    });
+});
+
+describe('swapExactIn', () => {
+    it('trades like a V2 pair on the virtual reserves while it stays between ticks', () => {
+        const state = pool(L);
+        const [reserve0, reserve1] = virtualReserves(state);
+        expect([reserve0, reserve1]).toEqual([L, L]);
+
+        for (const amountIn of [ONE / 1000n, ONE, 20n * ONE]) {
+            const v2 = getAmountOut(amountIn, reserve0, reserve1, FEE_BPS);
+            for (const zeroForOne of [true, false]) {
+                const out = swapExactIn(state, zeroForOne, amountIn, FEE_BPS);
+                // Rounded per step rather than once
+                expect(v2 - out).toBeGreaterThanOrEqual(0n);
+                expect(v2 - out).toBeLessThanOrEqual(2n);
+            }
+        }
+    });
+
+    it('prices a crossing of a tick that changes nothing like no tick at all', () => {
+        const plain = pool(L);
+        const withTicks = pool(L, [{ index: -60, liquidityNet: 0n }, { index: 60, liquidityNet: 0n }]);
+
+        for (const zeroForOne of [true, false]) {
+            const out = swapExactIn(withTicks, zeroForOne, 50n * ONE, FEE_BPS);
+            const expected = swapExactIn(plain, zeroForOne, 50n * ONE, FEE_BPS);
+            expect(expected - out).toBeGreaterThanOrEqual(0n);
+            expect(expected - out).toBeLessThanOrEqual(4n);
+        }
+    });
+
+    it('switches to the liquidity beyond a crossed tick', () => {
+        // Another L of liquidity sits below tick -60, i.e. it is added when the price falls through it
+        const state = pool(L, [{ index: -60, liquidityNet: -L }]);
+        const deep = pool(2n * L);
+
+        // Selling token0 lowers the price; 1 token stays above the tick, 50 cross it
+        expect(swapExactIn(state, true, ONE, FEE_BPS)).toBe(swapExactIn(pool(L), true, ONE, FEE_BPS));
+
+        const crossing = swapExactIn(state, true, 50n * ONE, FEE_BPS);
+        expect(crossing > swapExactIn(pool(L), true, 50n * ONE, FEE_BPS)).toBe(true);
+        expect(crossing < swapExactIn(deep, true, 50n * ONE, FEE_BPS)).toBe(true);
+
+        // Buying token0 raises the price away from the tick, so it is never crossed
+        expect(swapExactIn(state, false, 50n * ONE, FEE_BPS)).toBe(swapExactIn(pool(L), false, 50n * ONE, FEE_BPS));
+    });
+
+    it('cannot price a swap that crosses into a stretch without liquidity', () => {
+        // All liquidity sits in [-60, 60]; from there to the window's edge there is none
+        const state = pool(L, [{ index: -60, liquidityNet: L }, { index: 60, liquidityNet: -L }]);
+        expect(swapExactIn(state, false, ONE, FEE_BPS) > 0n).toBe(true);
+        expect(swapExactIn(state, false, 10n * ONE, FEE_BPS)).toBe(0n);
+    });
+
+    it('cannot price a swap that leaves the loaded tick window', () => {
+        const state = pool(L);
+        expect(swapExactIn(state, true, 1_000n * ONE, FEE_BPS)).toBe(0n);
+        expect(swapExactIn(state, false, 1_000n * ONE, FEE_BPS)).toBe(0n);
+    });
+
+    it('returns nothing for nothing', () => {
+        expect(swapExactIn(pool(L), true, 0n, FEE_BPS)).toBe(0n);
+    });
+});
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+// test/contracts/MockAavePool.sol
+pragma solidity ^0.8.20;
+
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+interface IFlashLoanSimpleReceiver {
+    function executeOperation(address asset, uint256 amount, uint256 premium, address initiator, bytes calldata params) external returns (bool);
+}
+
+/**
+ * Aave V3 pool reduced to flashLoanSimple and getReserveData. The pool is its own aToken:
+ * it lends whatever it holds of a listed asset and pulls the loan plus the 0.09% premium
+ * back from the receiver.
+ */
+contract MockAavePool {
+    uint256 public constant FLASHLOAN_PREMIUM_TOTAL = 9; // Basis points
+
+    struct ReserveData {
+        uint256 configuration;
+        uint128 liquidityIndex;
+        uint128 currentLiquidityRate;
+        uint128 variableBorrowIndex;
+        uint128 currentVariableBorrowRate;
+        uint128 currentStableBorrowRate;
+        uint40 lastUpdateTimestamp;
+        uint16 id;
+        address aTokenAddress;
+        address stableDebtTokenAddress;
+        address variableDebtTokenAddress;
+        address interestRateStrategyAddress;
+        uint128 accruedToTreasury;
+        uint128 unbacked;
+        uint128 isolationModeTotalDebt;
+    }
+
+    mapping(address => bool) public listed;
+
+    function listReserve(address asset) external {
+        listed[asset] = true;
+    }
+
+    function getReserveData(address asset) external view returns (ReserveData memory data) {
+        if (listed[asset]) data.aTokenAddress = address(this);
+    }
+
+    function flashLoanSimple(address receiverAddress, address asset, uint256 amount, bytes calldata params, uint16) external {
+        require(listed[asset], "reserve not listed");
+        // PercentageMath.percentMul rounds half up
+        uint256 premium = (amount * FLASHLOAN_PREMIUM_TOTAL + 5000) / 10000;
+
+        IERC20(asset).transfer(receiverAddress, amount);
+        require(
+            IFlashLoanSimpleReceiver(receiverAddress).executeOperation(asset, amount, premium, msg.sender, params),
+            "invalid flash loan executor return"
+        );
+        IERC20(asset).transferFrom(receiverAddress, address(this), amount + premium);
+    }
+}
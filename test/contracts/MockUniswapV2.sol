@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+// test/contracts/MockUniswapV2.sol
+pragma solidity ^0.8.20;
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+interface IUniswapV2Callee {
+    function uniswapV2Call(address sender, uint256 amount0, uint256 amount1, bytes calldata data) external;
+}
+
+/**
+ * UniswapV2 pair reduced to what the bot touches: reserves, Sync logs and swap with the
+ * flash-swap callback. The swap fee is the factory's, in basis points, so one factory stands
+ * in for one DEX. Liquidity is added by transferring tokens in and calling sync.
+ */
+contract MockUniswapV2Pair {
+    address public immutable token0;
+    address public immutable token1;
+    uint256 public immutable feeBps;
+
+    uint112 private reserve0;
+    uint112 private reserve1;
+    uint32 private blockTimestampLast;
+    bool private locked;
+
+    event Sync(uint112 reserve0, uint112 reserve1);
+
+    modifier lock() {
+        require(!locked, "locked");
+        locked = true;
+        _;
+        locked = false;
+    }
+
+    constructor(address token0_, address token1_, uint256 feeBps_) {
+        token0 = token0_;
+        token1 = token1_;
+        feeBps = feeBps_;
+    }
+
+    function getReserves() external view returns (uint112, uint112, uint32) {
+        return (reserve0, reserve1, blockTimestampLast);
+    }
+
+    function sync() external lock {
+        _update(IERC20(token0).balanceOf(address(this)), IERC20(token1).balanceOf(address(this)));
+    }
+
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata data) external lock {
+        require(amount0Out > 0 || amount1Out > 0, "insufficient output");
+        require(amount0Out < reserve0 && amount1Out < reserve1, "insufficient liquidity");
+
+        if (amount0Out > 0) IERC20(token0).transfer(to, amount0Out);
+        if (amount1Out > 0) IERC20(token1).transfer(to, amount1Out);
+        if (data.length > 0) IUniswapV2Callee(to).uniswapV2Call(msg.sender, amount0Out, amount1Out, data);
+
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0In = balance0 > reserve0 - amount0Out ? balance0 - (reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > reserve1 - amount1Out ? balance1 - (reserve1 - amount1Out) : 0;
+        require(amount0In > 0 || amount1In > 0, "insufficient input");
+
+        uint256 adjusted0 = balance0 * 10000 - amount0In * feeBps;
+        uint256 adjusted1 = balance1 * 10000 - amount1In * feeBps;
+        require(adjusted0 * adjusted1 >= uint256(reserve0) * reserve1 * 10000 ** 2, "K");
+
+        _update(balance0, balance1);
+    }
+
+    function _update(uint256 balance0, uint256 balance1) private {
+        require(balance0 <= type(uint112).max && balance1 <= type(uint112).max, "overflow");
+        reserve0 = uint112(balance0);
+        reserve1 = uint112(balance1);
+        blockTimestampLast = uint32(block.timestamp);
+        emit Sync(reserve0, reserve1);
+    }
+}
+
+contract MockUniswapV2Factory {
+    uint256 public immutable feeBps;
+    mapping(address => mapping(address => address)) public getPair;
+
+    constructor(uint256 feeBps_) {
+        feeBps = feeBps_;
+    }
+
+    function createPair(address tokenA, address tokenB) external returns (address pair) {
+        require(tokenA != tokenB && getPair[tokenA][tokenB] == address(0), "bad pair");
+        (address token0, address token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+
+        pair = address(new MockUniswapV2Pair(token0, token1, feeBps));
+        getPair[token0][token1] = pair;
+        getPair[token1][token0] = pair;
+    }
+}
+
+// Router with the exact-input swap the arbitrage contract and the back-run target use
+contract MockUniswapV2Router {
+    MockUniswapV2Factory public immutable factory;
+
+    constructor(MockUniswapV2Factory factory_) {
+        factory = factory_;
+    }
+
+    function getAmountsOut(uint256 amountIn, address[] memory path) public view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "bad path");
+        uint256 fee = factory.feeBps();
+
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i + 1 < path.length; i++) {
+            MockUniswapV2Pair pair = MockUniswapV2Pair(_pairFor(path[i], path[i + 1]));
+            (uint112 reserve0, uint112 reserve1,) = pair.getReserves();
+            (uint256 reserveIn, uint256 reserveOut) = path[i] == pair.token0() ? (reserve0, reserve1) : (reserve1, reserve0);
+
+            uint256 amountInWithFee = amounts[i] * (10000 - fee);
+            amounts[i + 1] = amountInWithFee * reserveOut / (reserveIn * 10000 + amountInWithFee);
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(block.timestamp <= deadline, "expired");
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[amounts.length - 1] >= amountOutMin, "insufficient output");
+
+        IERC20(path[0]).transferFrom(msg.sender, _pairFor(path[0], path[1]), amountIn);
+        for (uint256 i = 0; i + 1 < path.length; i++) {
+            MockUniswapV2Pair pair = MockUniswapV2Pair(_pairFor(path[i], path[i + 1]));
+            address recipient = i + 2 < path.length ? _pairFor(path[i + 1], path[i + 2]) : to;
+            (uint256 amount0Out, uint256 amount1Out) = path[i] == pair.token0()
+                ? (uint256(0), amounts[i + 1])
+                : (amounts[i + 1], uint256(0));
+            pair.swap(amount0Out, amount1Out, recipient, new bytes(0));
+        }
+    }
+
+    function _pairFor(address tokenA, address tokenB) private view returns (address pair) {
+        pair = factory.getPair(tokenA, tokenB);
+        require(pair != address(0), "no pair");
+    }
+}
@@ -0,0 +1,89 @@
+// test/cycles.test.ts
+
+import { findProfitableCycles, splitIntoLegs, hopsToPath } from '../src/cycles';
+import { SwapHop } from '../src/sizing';
+import { DEXConfig } from '../src/types';
+import { TOKEN_A, TOKEN_B, TOKEN_C, TOKEN_D, dex, v2Pool } from './helpers/pools';
+
+const ALPHA = dex('Alpha');
+const BETA = dex('Beta');
+const FLASH_LOAN_FEE_BPS = 9;
+
+const pathOf = (hops: SwapHop[]) => hopsToPath(hops).map(token => token.slice(0, 4));
+
+describe('findProfitableCycles', () => {
+    it('finds a two-pool gap once, in the direction that pays', () => {
+        const alpha = v2Pool(ALPHA, TOKEN_A, TOKEN_B, 1_000, 2_000_000);
+        const beta = v2Pool(BETA, TOKEN_A, TOKEN_B, 1_000, 2_100_000);
+
+        const cycles = findProfitableCycles([alpha, beta], [TOKEN_A, TOKEN_B], 2, 4, FLASH_LOAN_FEE_BPS);
+        expect(cycles).toHaveLength(1);
+
+        // Entered from the first start token: sell A where it is dear, buy it back where it is cheap
+        const [hops] = cycles;
+        expect(hops.map(hop => hop.pool)).toEqual([beta, alpha]);
+        expect(hops[0].tokenIn).toBe(TOKEN_A);
+    });
+
+    it('finds a triangle once, whichever of its tokens it could start from', () => {
+        // 1 A buys 2000 B buys 1.05 C on Alpha, and 1 C buys 1 A on Beta
+        const ab = v2Pool(ALPHA, TOKEN_A, TOKEN_B, 1_000, 2_000_000);
+        const bc = v2Pool(ALPHA, TOKEN_B, TOKEN_C, 2_000_000, 1_050);
+        const ca = v2Pool(BETA, TOKEN_C, TOKEN_A, 1_000, 1_000);
+
+        const cycles = findProfitableCycles([ab, bc, ca], [TOKEN_A, TOKEN_B, TOKEN_C], 3, 3, FLASH_LOAN_FEE_BPS);
+        expect(cycles).toHaveLength(1);
+        expect(pathOf(cycles[0])).toEqual(['0xaa', '0xbb', '0xcc', '0xaa']);
+
+        // Three hops need three-hop cycles allowed
+        expect(findProfitableCycles([ab, bc, ca], [TOKEN_A], 2, 2, FLASH_LOAN_FEE_BPS)).toEqual([]);
+    });
+
+    it('skips gaps the swap and flash-loan fees eat', () => {
+        const alpha = v2Pool(ALPHA, TOKEN_A, TOKEN_B, 1_000, 2_000_000);
+        const beta = v2Pool(BETA, TOKEN_A, TOKEN_B, 1_000, 2_010_000); // 0.5%, under 0.6% in swap fees alone
+
+        expect(findProfitableCycles([alpha, beta], [TOKEN_A, TOKEN_B], 2, 4, FLASH_LOAN_FEE_BPS)).toEqual([]);
+        expect(findProfitableCycles([alpha, beta], [TOKEN_A, TOKEN_B], 2, 4, 0)).toEqual([]);
+    });
+
+    it('ignores empty pools', () => {
+        const alpha = v2Pool(ALPHA, TOKEN_A, TOKEN_B, 1_000, 2_000_000);
+        const empty = v2Pool(BETA, TOKEN_A, TOKEN_B, 0, 0);
+        expect(findProfitableCycles([alpha, empty], [TOKEN_A], 2, 4, FLASH_LOAN_FEE_BPS)).toEqual([]);
+    });
+
+    it('only returns cycles the contract can run as a buy leg and a sell leg', () => {
+        // A -> B -> C -> D -> A, 5% up on every hop
+        const ring = (dexes: DEXConfig[]) => [
+            v2Pool(dexes[0], TOKEN_A, TOKEN_B, 1_000, 1_050),
+            v2Pool(dexes[1], TOKEN_B, TOKEN_C, 1_000, 1_050),
+            v2Pool(dexes[2], TOKEN_C, TOKEN_D, 1_000, 1_050),
+            v2Pool(dexes[3], TOKEN_D, TOKEN_A, 1_000, 1_050)
+        ];
+
+        expect(findProfitableCycles(ring([ALPHA, BETA, BETA, BETA]), [TOKEN_A], 2, 4, FLASH_LOAN_FEE_BPS)).toHaveLength(1);
+        // Alternating DEXes every hop
+        expect(findProfitableCycles(ring([ALPHA, BETA, ALPHA, BETA]), [TOKEN_A], 2, 4, FLASH_LOAN_FEE_BPS)).toEqual([]);
+    });
+});
+
+describe('splitIntoLegs', () => {
+    const ab = v2Pool(ALPHA, TOKEN_A, TOKEN_B, 1_000, 1_000);
+    const bc = v2Pool(ALPHA, TOKEN_B, TOKEN_C, 1_000, 1_000);
+    const ca = v2Pool(BETA, TOKEN_C, TOKEN_A, 1_000, 1_000);
+
+    it('cuts a route where it changes DEX', () => {
+        const hops: SwapHop[] = [{ pool: ab, tokenIn: TOKEN_A }, { pool: bc, tokenIn: TOKEN_B }, { pool: ca, tokenIn: TOKEN_C }];
+        const legs = splitIntoLegs(hops)!;
+        expect(pathOf(legs.buyHops)).toEqual(['0xaa', '0xbb', '0xcc']);
+        expect(pathOf(legs.sellHops)).toEqual(['0xcc', '0xaa']);
+    });
+
+    it('rejects a route that changes DEX more than once', () => {
+        const betaBc = v2Pool(BETA, TOKEN_B, TOKEN_C, 1_000, 1_000);
+        const alphaCa = v2Pool(ALPHA, TOKEN_C, TOKEN_A, 1_000, 1_000);
+        const hops: SwapHop[] = [{ pool: ab, tokenIn: TOKEN_A }, { pool: betaBc, tokenIn: TOKEN_B }, { pool: alphaCa, tokenIn: TOKEN_C }];
+        expect(splitIntoLegs(hops)).toBeNull();
+    });
+});
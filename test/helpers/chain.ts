@@ -0,0 +1,187 @@
+// test/helpers/chain.ts
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import ganache from 'ganache';
+import { ethers } from 'ethers';
+// solc ships no types
+const solc = require('solc');
+
+// The bot's wallet: deploys everything, so it also owns the arbitrage contract
+export const OWNER_KEY = '0x' + '11'.repeat(32);
+// Sends the swaps that open price gaps
+export const TRADER_KEY = '0x' + '22'.repeat(32);
+// Signs relay requests; holds no ether
+export const RELAY_SIGNER_KEY = '0x' + '33'.repeat(32);
+// Fee recipient of every block, i.e. the builder that mines them
+export const COINBASE = ethers.utils.getAddress('0x00000000000000000000000000000000c0ffee00');
+
+export const CHAIN_ID = 1337;
+
+const CONTRACT_FILES = [
+    path.resolve(__dirname, '..', '..', 'contracts', 'FlashLoanArbitrage.sol'),
+    path.resolve(__dirname, '..', 'contracts', 'MockERC20.sol'),
+    path.resolve(__dirname, '..', 'contracts', 'MockUniswapV2.sol'),
+    path.resolve(__dirname, '..', 'contracts', 'MockAavePool.sol')
+];
+
+export interface CompiledContract {
+    abi: any[];
+    bytecode: string;
+}
+
+let compiled: Map<string, CompiledContract> | null = null;
+
+/**
+ * Compiles the arbitrage contract and the mocks once per test file, for the EVM version
+ * the local chain runs.
+ */
+export function compileContracts(): Map<string, CompiledContract> {
+    if (compiled) return compiled;
+
+    const input = {
+        language: 'Solidity',
+        sources: Object.fromEntries(CONTRACT_FILES.map(file => [path.basename(file), { content: fs.readFileSync(file, 'utf8') }])),
+        settings: {
+            evmVersion: 'shanghai',
+            optimizer: { enabled: true, runs: 200 },
+            outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+        }
+    };
+    const output = JSON.parse(solc.compile(JSON.stringify(input)));
+    const errors = (output.errors ?? []).filter((e: any) => e.severity === 'error');
+    if (errors.length > 0) throw new Error(errors.map((e: any) => e.formattedMessage).join('\n'));
+
+    compiled = new Map();
+    for (const contracts of Object.values<any>(output.contracts)) {
+        for (const [name, contract] of Object.entries<any>(contracts)) {
+            compiled.set(name, { abi: contract.abi, bytecode: '0x' + contract.evm.bytecode.object });
+        }
+    }
+    return compiled;
+}
+
+async function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+export interface LocalChain {
+    url: string;
+    wsUrl: string;
+    provider: ethers.providers.JsonRpcProvider;
+    owner: ethers.Wallet;
+    trader: ethers.Wallet;
+    close(): Promise<void>;
+}
+
+/**
+ * An in-process EVM on a local port, serving HTTP and WebSocket JSON-RPC like a real node.
+ * Transactions are mined as soon as they arrive, each in its own block, unless the miner
+ * is stopped (see the mock relay).
+ */
+export async function startChain(): Promise<LocalChain> {
+    const port = await freePort();
+    const server = ganache.server({
+        logging: { quiet: true },
+        chain: { chainId: CHAIN_ID, hardfork: 'shanghai' },
+        miner: { coinbase: COINBASE, instamine: 'strict' },
+        wallet: {
+            accounts: [OWNER_KEY, TRADER_KEY].map(secretKey => ({ secretKey, balance: ethers.utils.parseEther('1000').toHexString() }))
+        }
+    });
+    await server.listen(port, '127.0.0.1');
+
+    const url = `http://127.0.0.1:${port}`;
+    const provider = new ethers.providers.StaticJsonRpcProvider(url, CHAIN_ID);
+    // Receipts are there right after the send; no need for the 4 s default
+    provider.pollingInterval = 100;
+
+    return {
+        url,
+        wsUrl: `ws://127.0.0.1:${port}`,
+        provider,
+        owner: new ethers.Wallet(OWNER_KEY, provider),
+        trader: new ethers.Wallet(TRADER_KEY, provider),
+        close: () => server.close()
+    };
+}
+
+export interface DexDeployment {
+    name: string;
+    factory: string;
+    router: string;
+    feeBps: number;
+}
+
+export interface Market {
+    weth: ethers.Contract;
+    usdc: ethers.Contract;
+    dexes: DexDeployment[];
+    aavePool: ethers.Contract;
+    arbitrage: ethers.Contract;
+    pair(dex: DexDeployment): Promise<ethers.Contract>;
+    addLiquidity(dex: DexDeployment, wethAmount: string, usdcAmount: string): Promise<void>;
+}
+
+async function deploy(signer: ethers.Wallet, name: string, ...args: any[]): Promise<ethers.Contract> {
+    const { abi, bytecode } = compileContracts().get(name)!;
+    const contract = await new ethers.ContractFactory(abi, bytecode, signer).deploy(...args);
+    await contract.deployed();
+    return contract;
+}
+
+/**
+ * WETH and USDC, two V2 DEXes with a WETH/USDC pair each, an Aave pool lending both tokens
+ * and the arbitrage contract, owned by the owner wallet. Pairs start empty.
+ */
+export async function deployMarket(chain: LocalChain, dexNames: string[] = ['Alpha', 'Beta']): Promise<Market> {
+    const { owner } = chain;
+    const weth = await deploy(owner, 'MockERC20', 'Wrapped Ether', 'WETH', 18);
+    const usdc = await deploy(owner, 'MockERC20', 'USD Coin', 'USDC', 6);
+
+    const dexes: DexDeployment[] = [];
+    for (const name of dexNames) {
+        const factory = await deploy(owner, 'MockUniswapV2Factory', 30);
+        const router = await deploy(owner, 'MockUniswapV2Router', factory.address);
+        await (await factory.createPair(weth.address, usdc.address)).wait();
+        dexes.push({ name, factory: factory.address, router: router.address, feeBps: 30 });
+    }
+
+    const aavePool = await deploy(owner, 'MockAavePool');
+    for (const [token, amount] of [[weth, ethers.utils.parseEther('1000')], [usdc, ethers.utils.parseUnits('1000000', 6)]] as const) {
+        await (await aavePool.listReserve(token.address)).wait();
+        await (await token.mint(aavePool.address, amount)).wait();
+    }
+
+    const arbitrage = await deploy(owner, 'FlashLoanArbitrage', aavePool.address);
+    const pairAbi = compileContracts().get('MockUniswapV2Pair')!.abi;
+    const factoryAbi = compileContracts().get('MockUniswapV2Factory')!.abi;
+
+    const pair = async (dex: DexDeployment) => {
+        const factory = new ethers.Contract(dex.factory, factoryAbi, owner);
+        return new ethers.Contract(await factory.getPair(weth.address, usdc.address), pairAbi, owner);
+    };
+
+    return {
+        weth,
+        usdc,
+        dexes,
+        aavePool,
+        arbitrage,
+        pair,
+        addLiquidity: async (dex, wethAmount, usdcAmount) => {
+            const target = await pair(dex);
+            await (await weth.mint(target.address, ethers.utils.parseEther(wethAmount))).wait();
+            await (await usdc.mint(target.address, ethers.utils.parseUnits(usdcAmount, 6))).wait();
+            await (await target.sync()).wait();
+        }
+    };
+}
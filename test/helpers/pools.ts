@@ -0,0 +1,34 @@
+// test/helpers/pools.ts
+
+import { PoolState } from '../../src/poolstate';
+import { DEXConfig } from '../../src/types';
+
+export const TOKEN_A = '0x' + 'aa'.repeat(20);
+export const TOKEN_B = '0x' + 'bb'.repeat(20);
+export const TOKEN_C = '0x' + 'cc'.repeat(20);
+export const TOKEN_D = '0x' + 'dd'.repeat(20);
+
+export const ONE = 10n ** 18n;
+
+export function dex(name: string, feeBps: number = 30): DEXConfig {
+    const id = name.toLowerCase().charCodeAt(0).toString(16).padStart(2, '0');
+    return { name, kind: 'v2', router: '0x' + id.repeat(20), factory: '0x' + id.repeat(19) + 'ff', feeBps };
+}
+
+let nextPool = 1;
+
+/**
+ * A V2 pair on `on` holding `reserve0` of token0 and `reserve1` of token1, in whole tokens
+ * of 18 decimals. Every call gets a new pair address.
+ */
+export function v2Pool(on: DEXConfig, token0: string, token1: string, reserve0: number, reserve1: number): PoolState {
+    return {
+        address: '0x' + (nextPool++).toString(16).padStart(40, '0'),
+        dex: on,
+        token0,
+        token1,
+        reserve0: BigInt(reserve0) * ONE,
+        reserve1: BigInt(reserve1) * ONE,
+        blockNumber: 1
+    };
+}
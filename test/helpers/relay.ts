@@ -0,0 +1,118 @@
+// test/helpers/relay.ts
+
+import http from 'http';
+import net from 'net';
+import { ethers } from 'ethers';
+import { LocalChain, COINBASE } from './chain';
+
+export interface RelayRequest {
+    method: string;
+    signer: string; // Address recovered from X-Flashbots-Signature
+    params: any[];
+}
+
+export interface MockRelay {
+    url: string;
+    requests: RelayRequest[];
+    // 'include' mines a bundle sent for the next block; 'drop' accepts it and mines the block without it
+    mode: 'include' | 'drop';
+    close(): Promise<void>;
+}
+
+/**
+ * A Flashbots-style relay and builder in front of the local chain. Every request must carry
+ * a valid X-Flashbots-Signature. eth_callBundle runs the bundle in a block that is thrown
+ * away again; eth_sendBundle builds the next block, with the bundle at its top unless the
+ * relay drops it or it targets another block, so a caller waiting for its target block is
+ * never left waiting.
+ */
+export async function startRelay(chain: LocalChain): Promise<MockRelay> {
+    const relay: MockRelay = { url: '', requests: [], mode: 'include', close: async () => {} };
+    const rpc = (method: string, params: unknown[] = []) => chain.provider.send(method, params);
+
+    // Mines exactly the given transactions, in order, in one new block
+    async function mineBundle(txs: string[]): Promise<ethers.providers.TransactionReceipt[]> {
+        await rpc('miner_stop');
+        try {
+            // Pending transactions are ordered by tip, so the target must pay more than ours
+            const hashes: string[] = [];
+            for (const tx of txs) hashes.push(await rpc('eth_sendRawTransaction', [tx]));
+            await rpc('evm_mine');
+            return Promise.all(hashes.map(hash => chain.provider.getTransactionReceipt(hash)));
+        } finally {
+            await rpc('miner_start');
+        }
+    }
+
+    async function callBundle({ txs }: { txs: string[] }) {
+        const snapshot = await rpc('evm_snapshot');
+        try {
+            const balanceBefore = await chain.provider.getBalance(COINBASE);
+            const receipts = await mineBundle(txs);
+            const balanceAfter = await chain.provider.getBalance(COINBASE);
+
+            return {
+                bundleHash: bundleHashOf(txs),
+                coinbaseDiff: balanceAfter.sub(balanceBefore).toString(),
+                results: receipts.map(receipt => ({
+                    txHash: receipt.transactionHash,
+                    gasUsed: receipt.gasUsed.toNumber(),
+                    ...(receipt.status === 1 ? { value: '0x' } : { error: 'execution reverted', revert: '' })
+                }))
+            };
+        } finally {
+            await rpc('evm_revert', [snapshot]);
+        }
+    }
+
+    async function sendBundle({ txs, blockNumber }: { txs: string[]; blockNumber: string }) {
+        // Straight from the node: the provider's cached head may be a simulated block since reverted
+        const nextBlock = Number(await rpc('eth_blockNumber')) + 1;
+        if (relay.mode === 'include' && Number(blockNumber) === nextBlock) {
+            await mineBundle(txs);
+        } else {
+            await rpc('evm_mine');
+        }
+        return { bundleHash: bundleHashOf(txs) };
+    }
+
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', async () => {
+            let id: unknown = null;
+            const reply = (payload: object) => {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, ...payload }));
+            };
+
+            try {
+                const request = JSON.parse(body);
+                id = request.id ?? null;
+
+                const [signer, signature] = String(req.headers['x-flashbots-signature'] ?? '').split(':');
+                if (!signature || ethers.utils.verifyMessage(ethers.utils.id(body), signature).toLowerCase() !== signer.toLowerCase()) {
+                    return reply({ error: { code: -32600, message: 'invalid flashbots signature' } });
+                }
+                relay.requests.push({ method: request.method, signer: ethers.utils.getAddress(signer), params: request.params });
+
+                switch (request.method) {
+                    case 'eth_callBundle': return reply({ result: await callBundle(request.params[0]) });
+                    case 'eth_sendBundle': return reply({ result: await sendBundle(request.params[0]) });
+                    default: return reply({ error: { code: -32601, message: `method ${request.method} not supported` } });
+                }
+            } catch (error: any) {
+                reply({ error: { code: -32000, message: error.message } });
+            }
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    relay.url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+    relay.close = () => new Promise(resolve => server.close(() => resolve()));
+    return relay;
+}
+
+function bundleHashOf(txs: string[]): string {
+    return ethers.utils.keccak256(ethers.utils.hexConcat(txs.map(tx => ethers.utils.keccak256(tx))));
+}
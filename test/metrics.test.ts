@@ -0,0 +1,79 @@
+// test/metrics.test.ts
+
+import { MetricsRegistry, textLabel } from '../src/metrics';
+
+describe('MetricsRegistry', () => {
+    it('renders counters, gauges and histograms in the Prometheus text format', () => {
+        const registry = new MetricsRegistry();
+        const trades = registry.counter('arb_trades_total', 'Trades by result');
+        const pnl = registry.gauge('arb_pnl_quote', 'Realised PnL');
+        const latency = registry.histogram('arb_latency_seconds', 'Latency', [0.5, 0.1, 1]);
+
+        trades.inc({ chain: 'Polygon', result: 'success' });
+        trades.inc({ result: 'success', chain: 'Polygon' }, 2);
+        trades.inc({ chain: 'Polygon', result: 'failed' });
+        pnl.set({ scope: 'Polygon' }, 12.5);
+        pnl.add({ scope: 'Polygon' }, -2.5);
+        pnl.add({ scope: 'Base' }, 1);
+        latency.observe({ chain: 'Polygon' }, 0.05);
+        latency.observe({ chain: 'Polygon' }, 0.75);
+        latency.observe({ chain: 'Polygon' }, 3);
+
+        expect(registry.render()).toBe([
+            '# HELP arb_trades_total Trades by result',
+            '# TYPE arb_trades_total counter',
+            'arb_trades_total{chain="Polygon",result="success"} 3',
+            'arb_trades_total{chain="Polygon",result="failed"} 1',
+            '',
+            '# HELP arb_pnl_quote Realised PnL',
+            '# TYPE arb_pnl_quote gauge',
+            'arb_pnl_quote{scope="Polygon"} 10',
+            'arb_pnl_quote{scope="Base"} 1',
+            '',
+            '# HELP arb_latency_seconds Latency',
+            '# TYPE arb_latency_seconds histogram',
+            'arb_latency_seconds_bucket{chain="Polygon",le="0.1"} 1',
+            'arb_latency_seconds_bucket{chain="Polygon",le="0.5"} 1',
+            'arb_latency_seconds_bucket{chain="Polygon",le="1"} 2',
+            'arb_latency_seconds_bucket{chain="Polygon",le="+Inf"} 3',
+            'arb_latency_seconds_sum{chain="Polygon"} 3.8',
+            'arb_latency_seconds_count{chain="Polygon"} 3',
+            ''
+        ].join('\n'));
+    });
+
+    it('renders a metric without labels or samples', () => {
+        const registry = new MetricsRegistry();
+        registry.counter('arb_scans_total', 'Scans').inc();
+        registry.gauge('arb_idle', 'Never set');
+
+        expect(registry.render()).toBe(
+            '# HELP arb_scans_total Scans\n# TYPE arb_scans_total counter\narb_scans_total 1\n\n' +
+            '# HELP arb_idle Never set\n# TYPE arb_idle gauge\n'
+        );
+    });
+
+    it('escapes backslashes, quotes and newlines in label values', () => {
+        const registry = new MetricsRegistry();
+        registry.counter('arb_reverts_total', 'Reverts').inc({ reason: 'say "no"\\\nthen stop' });
+
+        expect(registry.render()).toContain('arb_reverts_total{reason="say \\"no\\"\\\\\\nthen stop"} 1');
+    });
+
+    it('refuses to count down', () => {
+        const counter = new MetricsRegistry().counter('arb_scans_total', 'Scans');
+        expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+    });
+});
+
+describe('textLabel', () => {
+    it('keeps the first line of free text, bounded in length', () => {
+        expect(textLabel('  execution reverted: K  \n  at 0x1234')).toBe('execution reverted: K');
+        expect(textLabel('x'.repeat(200))).toBe('x'.repeat(80));
+    });
+
+    it('labels missing text as unknown', () => {
+        expect(textLabel(undefined)).toBe('unknown');
+        expect(textLabel('')).toBe('unknown');
+    });
+});
@@ -0,0 +1,156 @@
+// test/mev/flashbots.e2e.test.ts
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers'; // v6, like src/mev
+import type { FlashbotsMEVExecutor } from '../../src/mev/flashbots';
+import { decodeRouterSwap } from '../../src/mev/mempool';
+import { DEXConfig } from '../../src/types';
+import { startChain, deployMarket, LocalChain, Market, OWNER_KEY, RELAY_SIGNER_KEY, COINBASE, CHAIN_ID } from '../helpers/chain';
+import { startRelay, MockRelay } from '../helpers/relay';
+
+const VICTIM_SWAP_ABI = ['function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)'];
+
+describe('FlashbotsMEVExecutor against a local chain and relay', () => {
+    let chain: LocalChain;
+    let market: Market;
+    let relay: MockRelay;
+    let executor: FlashbotsMEVExecutor;
+
+    // A WETH sale on Alpha, signed by the trader and only ever seen in the "mempool"
+    async function pendingSwap(wethIn: string) {
+        const [alpha] = market.dexes;
+        const raw = await chain.trader.signTransaction({
+            type: 2,
+            chainId: CHAIN_ID,
+            nonce: await chain.provider.getTransactionCount(chain.trader.address),
+            to: alpha.router,
+            data: new ethers.Interface(VICTIM_SWAP_ABI).encodeFunctionData('swapExactTokensForTokens', [
+                ethers.parseEther(wethIn), 0n, [market.weth.address, market.usdc.address], chain.trader.address, 2n ** 40n
+            ]),
+            gasLimit: 300_000,
+            // Far above the back-run's tip, so a block built from the pool puts the target first
+            maxPriorityFeePerGas: ethers.parseUnits('1000', 'gwei').toString(),
+            maxFeePerGas: ethers.parseUnits('2000', 'gwei').toString()
+        });
+        return decodeRouterSwap(ethers.Transaction.from(raw) as any, raw)!;
+    }
+
+    beforeAll(async () => {
+        chain = await startChain();
+        market = await deployMarket(chain);
+        relay = await startRelay(chain);
+
+        // Shallow pools, so the gap a 1 WETH sale opens is closed with a small flash loan
+        for (const dex of market.dexes) await market.addLiquidity(dex, '5', '10000');
+        // The market's contracts are ethers v5, so amounts go in as decimal strings
+        await (await market.weth.mint(chain.trader.address, ethers.parseEther('10').toString())).wait();
+        await (await market.weth.connect(chain.trader).approve(market.dexes[0].router, ethers.MaxUint256.toString())).wait();
+
+        const registry = path.join(process.cwd(), 'builders.json');
+        fs.writeFileSync(registry, JSON.stringify({
+            networks: { unknown: [{ name: 'local', url: relay.url, auth: 'flashbots', coinbase: [COINBASE] }] }
+        }));
+        Object.assign(process.env, {
+            RPC_URL: chain.url,
+            WALLET_PRIVATE_KEY: OWNER_KEY,
+            FLASHBOTS_RELAY_URL: relay.url,
+            BUILDER_REGISTRY: registry,
+            MEV_TARGET_BLOCKS: '2'
+        });
+
+        // The executor reads its configuration from the environment on import
+        const { FlashbotsMEVExecutor } = await import('../../src/mev/flashbots');
+        const dexes: DEXConfig[] = market.dexes.map(dex => ({ name: dex.name, kind: 'v2', router: dex.router, factory: dex.factory, feeBps: dex.feeBps }));
+        executor = new FlashbotsMEVExecutor(chain.url, OWNER_KEY, RELAY_SIGNER_KEY, market.arbitrage.address, dexes, market.weth.address, false);
+        await executor.initialize();
+    });
+
+    afterAll(async () => {
+        await relay?.close();
+        await chain?.close();
+    });
+
+    it('back-runs a pending swap in one bundle with it and keeps the profit in the contract', async () => {
+        const op = await pendingSwap('1');
+        const nonceBefore = await chain.provider.getTransactionCount(chain.owner.address);
+        const wethBefore = (await market.weth.balanceOf(market.arbitrage.address)).toBigInt();
+        const coinbaseBefore = (await chain.provider.getBalance(COINBASE)).toBigInt();
+
+        expect(await executor.executeBackrun(op)).toBe(true);
+
+        const [record] = executor.getBundleHistory(1);
+        expect(record).toMatchObject({
+            targetTxHash: op.targetTxHash,
+            nonces: [nonceBefore],
+            resolution: 'included',
+            builders: ['local'],
+            includedBy: 'local',
+            simulation: { success: true }
+        });
+
+        // Both transactions landed in the block the relay built, the target first
+        const block = await chain.provider.getBlockWithTransactions(record.includedBlock!);
+        expect(block.transactions.map(tx => tx.hash)).toEqual([op.targetTxHash, expect.any(String)]);
+        expect(block.transactions[1].from).toBe(chain.owner.address);
+
+        const profit = (await market.weth.balanceOf(market.arbitrage.address)).toBigInt() - wethBefore;
+        expect(profit > 0n).toBe(true);
+        // The simulated coinbase payment is what the block paid the builder
+        const coinbaseGain = (await chain.provider.getBalance(COINBASE)).toBigInt() - coinbaseBefore;
+        expect(BigInt(record.coinbasePaymentWei)).toBe(coinbaseGain);
+
+        expect(await chain.provider.getTransactionCount(chain.owner.address)).toBe(nonceBefore + 1);
+        expect(executor['nonceManager'].getCurrentNonce()).toBe(nonceBefore + 1);
+
+        // Simulated first, then sent once, all signed by the relay signer
+        const signer = new ethers.Wallet(RELAY_SIGNER_KEY).address;
+        expect(relay.requests.map(r => r.method)).toEqual(['eth_callBundle', 'eth_sendBundle']);
+        expect(relay.requests.every(r => r.signer === signer)).toBe(true);
+        expect(relay.requests[1].params[0]).toEqual({ txs: [op.targetTxRaw, expect.any(String)], blockNumber: ethers.toQuantity(record.includedBlock!) });
+    });
+
+    it('holds the minimum profit against what is kept after the bribe', async () => {
+        const { config } = await import('../../src/config');
+        relay.requests.length = 0;
+        const op = await pendingSwap('1');
+        const costs = (await executor['backrunCosts']((await executor['strategy'].plan(op))!))!;
+
+        // Clears the minimum before the bribe, not after it
+        const minProfitEth = config.flashbots.minProfitEth;
+        config.flashbots.minProfitEth = Number(ethers.formatEther(costs.keptProfitWei + costs.bribeWei / 2n));
+        try {
+            expect(await executor.executeBackrun(op)).toBe(false);
+        } finally {
+            config.flashbots.minProfitEth = minProfitEth;
+        }
+
+        const [candidate] = await executor.scanMEVOpportunities();
+        expect(candidate).toMatchObject({ targetTxHash: op.targetTxHash, outcome: 'below_min_profit' });
+        expect(relay.requests).toEqual([]);
+    });
+
+    it('hands the nonce back when no target block includes the bundle', async () => {
+        relay.mode = 'drop';
+        relay.requests.length = 0;
+        const op = await pendingSwap('1');
+        const nonceBefore = await chain.provider.getTransactionCount(chain.owner.address);
+        const headBefore = await chain.provider.getBlockNumber();
+
+        expect(await executor.executeBackrun(op)).toBe(false);
+
+        const [record] = executor.getBundleHistory(1);
+        expect(record).toMatchObject({
+            targetTxHash: op.targetTxHash,
+            nonces: [nonceBefore],
+            resolution: 'block_passed',
+            targetBlock: headBefore + 1,
+            lastTargetBlock: headBefore + 2
+        });
+        expect(relay.requests.map(r => r.method)).toEqual(['eth_callBundle', 'eth_sendBundle', 'eth_sendBundle']);
+
+        expect(await chain.provider.getTransactionCount(chain.owner.address)).toBe(nonceBefore);
+        expect(executor['nonceManager'].getCurrentNonce()).toBe(nonceBefore);
+        expect(executor['nonceManager'].getGaps()).toEqual([]);
+    });
+});
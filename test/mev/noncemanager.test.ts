@@ -0,0 +1,147 @@
+// test/mev/noncemanager.test.ts
+
+import fs from 'fs';
+import { NonceManager, NonceProvider, NONCE_STATE_DIR } from '../../src/mev/noncemanager';
+
+const ADDRESS = '0x' + 'ab'.repeat(20);
+
+// What the node reports for the wallet; tests move it along as transactions "mine"
+class FakeNode implements NonceProvider {
+    latest = 5;
+    pending = 5;
+    block = 100;
+
+    async getTransactionCount(_address: string, blockTag: 'latest' | 'pending'): Promise<number> {
+        return blockTag === 'latest' ? this.latest : this.pending;
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return this.block;
+    }
+
+    async getNetwork(): Promise<{ name: string }> {
+        return { name: 'testnet' };
+    }
+}
+
+describe('NonceManager', () => {
+    let node: FakeNode;
+    let nonces: NonceManager;
+
+    beforeEach(async () => {
+        fs.rmSync(NONCE_STATE_DIR, { recursive: true, force: true });
+        node = new FakeNode();
+        nonces = new NonceManager(node, ADDRESS);
+        await nonces.initialize();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('starts at the node pending count and hands out consecutive nonces', () => {
+        expect(nonces.getCurrentNonce()).toBe(5);
+        expect(nonces.reserve(2)).toEqual([5, 6]);
+        expect(nonces.reserve()).toEqual([7]);
+        expect(nonces.getCurrentNonce()).toBe(8);
+        expect(nonces.getPendingCount()).toBe(3);
+    });
+
+    it('hands a released nonce at the top out again', () => {
+        const [nonce] = nonces.reserve();
+        nonces.release([nonce]);
+
+        expect(nonces.getCurrentNonce()).toBe(5);
+        expect(nonces.getGaps()).toEqual([]);
+        expect(nonces.reserve()).toEqual([5]);
+    });
+
+    it('turns a released nonce below a committed one into a gap the next reservation fills', () => {
+        const [first, second] = nonces.reserve(2);
+        nonces.commit([second]);
+        nonces.release([first]);
+
+        expect(nonces.getGaps()).toEqual([5]);
+        expect(nonces.getCurrentNonce()).toBe(7);
+        expect(nonces.reserve()).toEqual([5]);
+        expect(nonces.getGaps()).toEqual([]);
+        expect(nonces.reserve()).toEqual([7]);
+    });
+
+    it('only reuses gaps for a reservation when they are consecutive', () => {
+        nonces.reserve(5); // 5..9
+        nonces.commit([6, 9]);
+        nonces.release([5, 7, 8]);
+
+        expect(nonces.getGaps()).toEqual([5, 7, 8]);
+        expect(nonces.reserve(2)).toEqual([7, 8]);
+        expect(nonces.reserve(2)).toEqual([10, 11]);
+        expect(nonces.getGaps()).toEqual([5]);
+    });
+
+    it('releases the whole top run, gaps included', () => {
+        nonces.reserve(3); // 5, 6, 7
+        nonces.release([6]);
+        expect(nonces.getGaps()).toEqual([6]);
+
+        nonces.release([7]);
+        expect(nonces.getCurrentNonce()).toBe(6);
+        expect(nonces.getGaps()).toEqual([]);
+    });
+
+    it('picks up where it left off after a restart, in-flight nonces included', async () => {
+        nonces.reserve(2); // 5 committed, 6 still being signed
+        nonces.commit([5]);
+
+        const restarted = new NonceManager(node, ADDRESS);
+        await restarted.initialize();
+        expect(restarted.getCurrentNonce()).toBe(7);
+        expect(restarted.getGaps()).toEqual([]);
+        expect(restarted.reserve()).toEqual([7]);
+    });
+
+    it('treats a committed nonce the node still has not seen after the grace period as a gap', async () => {
+        const [nonce] = nonces.reserve();
+        nonces.commit([nonce]);
+
+        node.block += 10;
+        await nonces.resyncIfNeeded();
+        expect(nonces.getGaps()).toEqual([]);
+
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + 31_000);
+        node.block += 10;
+        await nonces.resyncIfNeeded();
+        expect(nonces.getGaps()).toEqual([5]);
+        expect(nonces.reserve()).toEqual([5]);
+    });
+
+    it('forgets nonces the node has mined and skips past ones sent by someone else', async () => {
+        nonces.commit(nonces.reserve(2)); // 5, 6
+        node.latest = node.pending = 9; // 7 and 8 came from elsewhere
+
+        await nonces.resyncIfNeeded(); // Too soon
+        expect(nonces.getCurrentNonce()).toBe(7);
+
+        await nonces.resyncIfNeeded(true);
+        expect(nonces.getCurrentNonce()).toBe(9);
+        expect(nonces.getPendingCount()).toBe(0);
+        expect(nonces.getGaps()).toEqual([]);
+    });
+
+    it('fills gaps with whatever the caller sends and keeps the ones it could not fill', async () => {
+        nonces.reserve(3); // 5, 6, 7
+        nonces.commit([7]);
+        nonces.release([5, 6]);
+
+        const filled: number[] = [];
+        await nonces.repairGaps(async (nonce) => {
+            if (nonce === 6) throw new Error('underpriced');
+            filled.push(nonce);
+        });
+
+        expect(filled).toEqual([5]);
+        expect(nonces.getGaps()).toEqual([6]);
+        expect(nonces.getPendingCount()).toBe(2); // 5 and 7 committed
+    });
+});
@@ -0,0 +1,13 @@
+// test/resolver.js
+
+/**
+ * src/mev is written against ethers v6 while the rest of the bot is on v5, so `ethers`
+ * imported from a mev/ directory (sources or tests) resolves to the v6 install. Everything
+ * else, the Flashbots bundle provider included, gets the v5 package.
+ */
+module.exports = (request, options) => {
+    if (request === 'ethers' && /[\\/]mev$/.test(options.basedir)) {
+        return options.defaultResolver('ethers-v6', options);
+    }
+    return options.defaultResolver(request, options);
+};
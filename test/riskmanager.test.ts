@@ -0,0 +1,57 @@
+// test/riskmanager.test.ts
+
+import fs from 'fs';
+import { RiskManager, RISK_STATE_DIR, DEFAULT_RISK_LIMITS, resumeRiskScope } from '../src/riskmanager';
+
+const ONE_ETH = 10n ** 18n;
+const LIMITS = { ...DEFAULT_RISK_LIMITS, maxGasPerHour: '1', maxDailyLossQuote: '10' };
+
+describe('RiskManager', () => {
+    let risk: RiskManager;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        fs.rmSync(RISK_STATE_DIR, { recursive: true, force: true });
+        risk = new RiskManager('Polygon', LIMITS);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stays resumed after a daily-loss pause until the limit is breached again', () => {
+        risk.recordResult({ gasCostWei: 0n, reverted: false, netProfitQuote: -12 });
+        expect(risk.isPaused()).toBe(true);
+
+        resumeRiskScope('Polygon');
+        risk.recordResult({ gasCostWei: 0n, reverted: false, netProfitQuote: 1 });
+        expect(risk.isPaused()).toBe(false);
+        expect(risk.getState().dailyNetQuote).toBe(1);
+
+        risk.recordResult({ gasCostWei: 0n, reverted: false, netProfitQuote: -12 });
+        expect(risk.isPaused()).toBe(true);
+    });
+
+    it('stays resumed after an hourly-gas pause', () => {
+        risk.recordResult({ gasCostWei: ONE_ETH, reverted: false, netProfitQuote: 0 });
+        risk.recordResult({ gasCostWei: ONE_ETH / 2n, reverted: false, netProfitQuote: 0 });
+        expect(risk.isPaused()).toBe(true);
+
+        resumeRiskScope('Polygon');
+        risk.recordResult({ gasCostWei: ONE_ETH / 2n, reverted: false, netProfitQuote: 0 });
+        expect(risk.isPaused()).toBe(false);
+        expect(risk.getState().gasSpent).toHaveLength(1);
+    });
+
+    it('starts a fresh revert streak on resume', () => {
+        for (let i = 0; i < LIMITS.maxConsecutiveReverts; i++) {
+            risk.recordResult({ gasCostWei: 0n, reverted: true, netProfitQuote: 0 });
+        }
+        expect(risk.check({ notionalQuote: 1, balanceWei: ONE_ETH })).toMatchObject({ allowed: false });
+
+        resumeRiskScope('Polygon');
+        risk.recordResult({ gasCostWei: 0n, reverted: true, netProfitQuote: 0 });
+        expect(risk.check({ notionalQuote: 1, balanceWei: ONE_ETH })).toEqual({ allowed: true });
+    });
+});
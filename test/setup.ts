@@ -0,0 +1,17 @@
+// test/setup.ts
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Nonces, risk state, trade books and bundle history go under ./logs; keep every test file's
+// apart from each other and from a real run in the checkout
+const checkout = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arb-test-'));
+process.chdir(workDir);
+
+// The worker runs the next test file from here, so it must not be left in a deleted directory
+afterAll(() => {
+    process.chdir(checkout);
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
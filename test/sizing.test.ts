@@ -0,0 +1,102 @@
+// test/sizing.test.ts
+
+import { solveOptimalBorrow, simulateRoute, twoLegHops, SwapHop } from '../src/sizing';
+import { TOKEN_A, TOKEN_B, TOKEN_C, ONE, dex, v2Pool } from './helpers/pools';
+
+const LIMITS = { flashLoanFeeBps: 9, maxPoolSharePercent: 100 };
+
+// Best profit on an even grid over [0, upper], refined around the best point
+function gridMaximum(hops: SwapHop[], upper: bigint): bigint {
+    let lo = 0n;
+    let hi = upper;
+    let best = 0n;
+    for (let round = 0; round < 6; round++) {
+        const step = (hi - lo) / 200n;
+        let bestAmount = lo;
+        for (let amount = lo; amount <= hi; amount += step) {
+            const profit = simulateRoute(amount, hops, LIMITS.flashLoanFeeBps);
+            if (profit > best) {
+                best = profit;
+                bestAmount = amount;
+            }
+        }
+        lo = bestAmount > step ? bestAmount - step : 0n;
+        hi = bestAmount + step;
+    }
+    return best;
+}
+
+describe('solveOptimalBorrow', () => {
+    // A is worth 5% more B on Beta than on Alpha
+    const alpha = v2Pool(dex('Alpha'), TOKEN_A, TOKEN_B, 1_000, 2_000_000);
+    const beta = v2Pool(dex('Beta'), TOKEN_A, TOKEN_B, 1_000, 2_100_000);
+    const hops = twoLegHops(beta, alpha, TOKEN_A);
+
+    it('borrows the amount no other size beats', () => {
+        const result = solveOptimalBorrow(hops, LIMITS)!;
+        expect(result.limitedBy).toBe('optimal');
+        expect(result.expectedProfit).toBe(simulateRoute(result.borrowAmount, hops, LIMITS.flashLoanFeeBps));
+
+        // Pairs round every output down, so sizes around the optimum can tie to a few wei
+        const best = gridMaximum(hops, 100n * ONE);
+        expect(best - result.expectedProfit).toBeLessThanOrEqual(2n);
+
+        const nearby = result.borrowAmount / 1000n;
+        expect(simulateRoute(result.borrowAmount - nearby, hops, LIMITS.flashLoanFeeBps)).toBeLessThan(result.expectedProfit);
+        expect(simulateRoute(result.borrowAmount + nearby, hops, LIMITS.flashLoanFeeBps)).toBeLessThan(result.expectedProfit);
+    });
+
+    it('solves routes of more than two hops in closed form too', () => {
+        // A -> B -> C on Alpha, C -> A on Beta, with C cheap on Alpha
+        const ab = v2Pool(dex('Alpha'), TOKEN_A, TOKEN_B, 1_000, 2_000_000);
+        const bc = v2Pool(dex('Alpha'), TOKEN_B, TOKEN_C, 2_000_000, 1_050);
+        const ca = v2Pool(dex('Beta'), TOKEN_C, TOKEN_A, 1_000, 1_000);
+        const triangle: SwapHop[] = [
+            { pool: ab, tokenIn: TOKEN_A },
+            { pool: bc, tokenIn: TOKEN_B },
+            { pool: ca, tokenIn: TOKEN_C }
+        ];
+
+        const result = solveOptimalBorrow(triangle, LIMITS)!;
+        expect(result.expectedProfit > 0n).toBe(true);
+        expect(gridMaximum(triangle, 100n * ONE) - result.expectedProfit).toBeLessThanOrEqual(2n);
+    });
+
+    it('records the profit curve around the chosen size', () => {
+        const result = solveOptimalBorrow(hops, LIMITS)!;
+        expect(result.profitCurve.map(point => point.borrowAmount)).toEqual(
+            [25n, 50n, 75n, 100n, 125n, 150n, 200n].map(pct => result.borrowAmount * pct / 100n)
+        );
+        expect(result.profitCurve[3].profit).toBe(result.expectedProfit);
+        expect(result.profitCurve.every(point => point.profit <= result.expectedProfit)).toBe(true);
+    });
+
+    it('caps the borrow at the share of the first pool it may take', () => {
+        const optimal = solveOptimalBorrow(hops, LIMITS)!;
+        const result = solveOptimalBorrow(hops, { ...LIMITS, maxPoolSharePercent: 1 })!;
+
+        // 1% of the 1000 A in Beta, well below the optimum
+        expect(result.borrowAmount).toBe(10n * ONE);
+        expect(result.borrowAmount < optimal.borrowAmount).toBe(true);
+        expect(result.limitedBy).toBe('liquidity');
+        expect(result.expectedProfit).toBe(simulateRoute(10n * ONE, hops, LIMITS.flashLoanFeeBps));
+    });
+
+    it('caps the borrow at the token exposure limit', () => {
+        const result = solveOptimalBorrow(hops, { ...LIMITS, maxPoolSharePercent: 1, maxBorrow: 2n * ONE })!;
+        expect(result.borrowAmount).toBe(2n * ONE);
+        expect(result.limitedBy).toBe('exposure');
+    });
+
+    it('returns null when the route loses at every size', () => {
+        expect(solveOptimalBorrow(twoLegHops(alpha, beta, TOKEN_A), LIMITS)).toBeNull();
+
+        // A gap smaller than the swap and flash-loan fees
+        const close = v2Pool(dex('Beta'), TOKEN_A, TOKEN_B, 1_000, 2_010_000);
+        expect(solveOptimalBorrow(twoLegHops(close, alpha, TOKEN_A), LIMITS)).toBeNull();
+    });
+
+    it('returns null when a cap leaves nothing to borrow', () => {
+        expect(solveOptimalBorrow(hops, { ...LIMITS, maxBorrow: 0n })).toBeNull();
+    });
+});
@@ -0,0 +1,61 @@
+// test/tradelogger.test.ts
+
+import path from 'path';
+import { TradeLogger, TradeRecord } from '../src/utils/tradelogger';
+
+let nextTrade = 1;
+
+function trade(fields: Partial<TradeRecord>): TradeRecord {
+    return {
+        id: `TRADE-${nextTrade++}`,
+        timestamp: Date.UTC(2026, 9, 18, 12),
+        blockNumber: 1,
+        status: 'success',
+        tokenA: { symbol: 'WETH', address: '0xaa', amount: '1' },
+        tokenB: { symbol: 'USDC', address: '0xbb', amount: '2000' },
+        buyDex: 'Alpha',
+        sellDex: 'Beta',
+        borrowAmount: '1',
+        expectedProfit: '0.01',
+        ...fields
+    };
+}
+
+describe('TradeLogger statistics', () => {
+    let logger: TradeLogger;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        logger = new TradeLogger(path.join('logs', `trades-${nextTrade}.jsonl`));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('sums PnL per quote symbol rather than adding ETH to USDC', () => {
+        logger.logTrade(trade({ chain: 'Polygon', profitQuote: '25', netProfitQuote: '20', quoteSymbol: 'USDC', gasCost: '0.5', gasToken: 'MATIC' }));
+        logger.logTrade(trade({ chain: 'Polygon', profitQuote: '5', netProfitQuote: '-1', quoteSymbol: 'USDC', gasCost: '0.5', gasToken: 'MATIC' }));
+        logger.logTrade(trade({ chain: 'Ethereum', profitQuote: '0.02', netProfitQuote: '0.015', quoteSymbol: 'ETH', gasCost: '0.005', gasToken: 'ETH' }));
+
+        const stats = logger.getStatistics();
+        expect(stats.grossProfitQuote).toEqual({ USDC: 30, ETH: 0.02 });
+        expect(stats.netProfitQuote).toEqual({ USDC: 19, ETH: 0.015 });
+        expect(stats.gasSpent).toEqual({ MATIC: 1, ETH: 0.005 });
+        expect(stats.byChain.Ethereum.netProfitQuote).toEqual({ ETH: 0.015 });
+        expect(stats.byDex.Alpha.netProfitQuote).toEqual({ USDC: 19, ETH: 0.015 });
+
+        const [day] = logger.getDailyPnL();
+        expect(day).toMatchObject({ date: '2026-10-18', trades: 3, netProfitQuote: { USDC: 19, ETH: 0.015 } });
+    });
+
+    it('charges gas only to trades that reached the chain', () => {
+        logger.logTrade(trade({ status: 'skipped', quoteSymbol: 'USDC', estimatedGasCost: '0.5', gasToken: 'MATIC' }));
+        logger.logTrade(trade({ status: 'failed', quoteSymbol: 'USDC', netProfitQuote: '-0.4', gasCost: '0.4', gasToken: 'MATIC' }));
+
+        const stats = logger.getStatistics();
+        expect(stats.gasSpent).toEqual({ MATIC: 0.4 });
+        expect(stats.netProfitQuote).toEqual({ USDC: -0.4 });
+        expect(stats.winRate).toBe(0);
+    });
+});
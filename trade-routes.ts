@@ -0,0 +1,164 @@
+import { Router, Request } from 'express';
+import { TradeLogger, TradeQuery, TradeRecord, TradeBook, TRADE_BOOK_FILES } from '../utils/tradelogger';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Reads the same files the bots append to; refreshed on every request. ?book=paper selects DRY_RUN trades
+const tradeLoggers: Record<TradeBook, TradeLogger> = {
+  live: new TradeLogger(TRADE_BOOK_FILES.live),
+  paper: new TradeLogger(TRADE_BOOK_FILES.paper)
+};
+
+const STATUSES: TradeRecord['status'][] = ['pending', 'success', 'failed', 'skipped'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Accepts ms since epoch or anything Date.parse understands (e.g. 2024-05-01)
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value);
+  const time = /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+  if (Number.isNaN(time)) throw new Error(`Invalid time: ${text}`);
+  return time;
+}
+
+function bookFor(req: Request): TradeLogger {
+  const book = req.query.book ?? 'live';
+  if (book !== 'live' && book !== 'paper') {
+    throw new Error('book must be live or paper');
+  }
+  return tradeLoggers[book];
+}
+
+function parseQuery(req: Request): TradeQuery {
+  const { status, pair, dex, chain, from, to } = req.query;
+
+  if (status !== undefined && !STATUSES.includes(status as TradeRecord['status'])) {
+    throw new Error(`status must be one of ${STATUSES.join(', ')}`);
+  }
+
+  return {
+    status: status as TradeRecord['status'] | undefined,
+    pair: pair as string | undefined,
+    dex: dex as string | undefined,
+    chain: chain as string | undefined,
+    from: parseTime(from),
+    to: parseTime(to)
+  };
+}
+
+// List trades, newest first
+router.get('/trades', (req, res) => {
+  let query: TradeQuery;
+  let tradeLogger: TradeLogger;
+  try {
+    query = parseQuery(req);
+    tradeLogger = bookFor(req);
+  } catch (error: any) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+  try {
+    tradeLogger.refresh();
+    const trades = tradeLogger.getTrades(query).reverse();
+    const page = trades.slice(offset, offset + limit);
+
+    res.json({
+      success: true,
+      data: page,
+      count: page.length,
+      total: trades.length,
+      offset,
+      limit
+    });
+  } catch (error) {
+    logger.error('Trades endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read trades'
+    });
+  }
+});
+
+// Get a single trade
+router.get('/trades/:id', (req, res) => {
+  let tradeLogger: TradeLogger;
+  try {
+    tradeLogger = bookFor(req);
+  } catch (error: any) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  try {
+    tradeLogger.refresh();
+    const trade = tradeLogger.getTrade(req.params.id);
+
+    if (!trade) {
+      return res.status(404).json({
+        success: false,
+        error: `Trade ${req.params.id} not found`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: trade
+    });
+  } catch (error) {
+    logger.error('Trade endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read trade'
+    });
+  }
+});
+
+// Aggregated PnL by day, pair and chain. Profit and gas are keyed by quote and gas token symbol,
+// since a chain trading against USDC and a back-run settled in ETH do not add up
+router.get('/pnl', (req, res) => {
+  let query: TradeQuery;
+  let tradeLogger: TradeLogger;
+  try {
+    query = parseQuery(req);
+    tradeLogger = bookFor(req);
+  } catch (error: any) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  try {
+    tradeLogger.refresh();
+    const { byPair, byDex, byChain, ...totals } = tradeLogger.getStatistics(query);
+
+    res.json({
+      success: true,
+      data: {
+        totals,
+        byDay: tradeLogger.getDailyPnL(query),
+        byPair,
+        byChain,
+        byDex
+      }
+    });
+  } catch (error) {
+    logger.error('PnL endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute PnL'
+    });
+  }
+});
+
+export default router;
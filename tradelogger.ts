@@ -1,20 +1,270 @@
-// src/utils/tradeLogger.ts (Content is the same as the previous response)
+// src/utils/tradelogger.ts
 
 import fs from 'fs';
 import path from 'path';
-import { ethers } from 'ethers';
 import chalk from 'chalk';
 
+// Paper trades (DRY_RUN) are kept in their own file so they never mix with realised PnL
+export type TradeBook = 'live' | 'paper';
+
+export const TRADE_BOOK_FILES: Record<TradeBook, string> = {
+    live: path.join(process.cwd(), 'logs', 'trades.jsonl'),
+    paper: path.join(process.cwd(), 'logs', 'paper-trades.jsonl')
+};
+
 export interface TradeRecord {
     id: string;
     timestamp: number;
     blockNumber: number;
-    
-    status: 'pending' | 'success' | 'failed';
-    // ... (rest of interface properties)
+
+    // 'skipped' marks trades that were detected but dropped by the pre-execution simulation
+    status: 'pending' | 'success' | 'failed' | 'skipped';
+    chain?: string;
+    pair?: string; // Route id, e.g. WMATIC/USDC or WMATIC/USDC/WETH
+
+    tokenA: { symbol: string; address: string; amount: string };
+    tokenB: { symbol: string; address: string; amount: string };
+    buyDex: string;
+    sellDex: string;
+    borrowAmount: string;
+    lender?: string; // Flash-loan provider that funded borrowAmount
+
+    // Profits are in tokenA units unless suffixed with Quote (chain quote token, see quoteSymbol)
+    expectedProfit: string;
+    actualProfit?: string;
+    netProfit?: string;
+    profitQuote?: string;
+    netProfitQuote?: string;
+    quoteSymbol?: string;
+    gasCost?: string; // Gas paid, in gasToken; only for trades that reached the chain
+    estimatedGasCost?: string; // Simulated gas, in gasToken, for trades skipped after simulation
+    gasToken?: string; // Symbol of the chain's gas token
+    effectiveGasPrice?: string; // Gwei, what the mined transaction paid
+
+    // Realised profit comes from the ArbitrageExecuted event and is cross-checked against
+    // the tokenA balances of the wallet and the contract
+    balanceDelta?: string;
+    reconciled?: boolean;
+    slippage?: string; // expectedProfit - actualProfit, tokenA units; positive means less than expected
+    slippageBps?: number; // Of expectedProfit
+
+    txHash?: string; // The version that was mined, after any speed-up or cancel
+    txOutcome?: 'mined' | 'cancelled' | 'replaced' | 'dropped' | 'timeout';
+    replacements?: number;
+    error?: string;
+}
+
+export interface TradeQuery {
+    from?: number; // Inclusive, ms since epoch
+    to?: number; // Exclusive, ms since epoch
+    status?: TradeRecord['status'];
+    pair?: string;
+    dex?: string; // Matches either leg
+    chain?: string;
+}
+
+export interface BreakdownStats {
+    trades: number;
+    successful: number;
+    failed: number;
+    grossProfitQuote: Record<string, number>; // By quote symbol; ETH back-runs and USDC chain trades do not add up
+    netProfitQuote: Record<string, number>;
+    gasSpent: Record<string, number>; // By gas token symbol; chains do not share one
+}
+
+export interface TradeStatistics extends BreakdownStats {
+    pending: number;
+    skipped: number;
+    winRate: number; // successful / (successful + failed), 0 when nothing settled
+    byPair: Record<string, BreakdownStats>;
+    byDex: Record<string, BreakdownStats>;
+    byChain: Record<string, BreakdownStats>;
+}
+
+export interface DailyPnL extends BreakdownStats {
+    date: string; // YYYY-MM-DD, UTC
+}
+
+function emptyBreakdown(): BreakdownStats {
+    return { trades: 0, successful: 0, failed: 0, grossProfitQuote: {}, netProfitQuote: {}, gasSpent: {} };
+}
+
+function addToBreakdown(stats: BreakdownStats, trade: TradeRecord): void {
+    stats.trades++;
+    if (trade.status === 'success') stats.successful++;
+    if (trade.status === 'failed') stats.failed++;
+    const quote = trade.quoteSymbol || 'unknown';
+    addTo(stats.grossProfitQuote, quote, trade.profitQuote);
+    addTo(stats.netProfitQuote, quote, trade.netProfitQuote);
+
+    // Skipped and pending trades never reached the chain, so they paid nothing
+    if ((trade.status === 'success' || trade.status === 'failed') && trade.gasCost) {
+        addTo(stats.gasSpent, trade.gasToken || 'unknown', trade.gasCost);
+    }
+}
+
+function addTo(sums: Record<string, number>, symbol: string, amount: string | undefined): void {
+    if (!amount) return;
+    sums[symbol] = (sums[symbol] ?? 0) + Number(amount);
+}
+
+function formatAmounts(sums: Record<string, number>, format: (value: number) => string): string {
+    const entries = Object.entries(sums);
+    if (entries.length === 0) return '0';
+    return entries.map(([symbol, amount]) => `${format(amount)} ${symbol}`).join(', ');
 }
 
+/**
+ * Persists trades to an append-only JSONL file. Every status change is appended as a full
+ * record, and replaying the file keeps the last line per id, so a trade moves from pending
+ * to success/failed without rewriting history.
+ */
 export class TradeLogger {
-    // ... (Class properties and methods, including constructor, logTrade, getStatistics, printStatistics)
-    // The implementation here remains identical to the last full code snippet.
+    private tradesFile: string;
+    private trades: Map<string, TradeRecord> = new Map();
+    private readOffset: number = 0;
+
+    constructor(tradesFile: string = TRADE_BOOK_FILES.live) {
+        this.tradesFile = tradesFile;
+
+        const logsDir = path.dirname(tradesFile);
+        if (!fs.existsSync(logsDir)) {
+            fs.mkdirSync(logsDir, { recursive: true });
+        }
+
+        this.refresh();
+    }
+
+    logTrade(trade: TradeRecord): void {
+        fs.appendFileSync(this.tradesFile, JSON.stringify(trade) + '\n');
+        this.trades.set(trade.id, trade);
+        this.consoleLogTrade(trade);
+    }
+
+    getTrade(id: string): TradeRecord | undefined {
+        return this.trades.get(id);
+    }
+
+    /**
+     * Trades matching the query, oldest first.
+     */
+    getTrades(query: TradeQuery = {}): TradeRecord[] {
+        return Array.from(this.trades.values())
+            .filter(t => query.from === undefined || t.timestamp >= query.from)
+            .filter(t => query.to === undefined || t.timestamp < query.to)
+            .filter(t => query.status === undefined || t.status === query.status)
+            .filter(t => query.pair === undefined || this.pairOf(t) === query.pair)
+            .filter(t => query.dex === undefined || t.buyDex === query.dex || t.sellDex === query.dex)
+            .filter(t => query.chain === undefined || t.chain === query.chain)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    getStatistics(query: TradeQuery = {}): TradeStatistics {
+        const stats: TradeStatistics = { ...emptyBreakdown(), pending: 0, skipped: 0, winRate: 0, byPair: {}, byDex: {}, byChain: {} };
+
+        for (const trade of this.getTrades(query)) {
+            addToBreakdown(stats, trade);
+            if (trade.status === 'pending') stats.pending++;
+            if (trade.status === 'skipped') stats.skipped++;
+
+            addToBreakdown(stats.byPair[this.pairOf(trade)] ??= emptyBreakdown(), trade);
+            addToBreakdown(stats.byChain[trade.chain || 'unknown'] ??= emptyBreakdown(), trade);
+
+            // Count a DEX once per trade, even when it was used for both legs
+            for (const dex of new Set([trade.buyDex, trade.sellDex])) {
+                addToBreakdown(stats.byDex[dex] ??= emptyBreakdown(), trade);
+            }
+        }
+
+        const settled = stats.successful + stats.failed;
+        stats.winRate = settled > 0 ? stats.successful / settled : 0;
+        return stats;
+    }
+
+    /**
+     * PnL per UTC day, oldest first.
+     */
+    getDailyPnL(query: TradeQuery = {}): DailyPnL[] {
+        const days: Map<string, DailyPnL> = new Map();
+
+        for (const trade of this.getTrades(query)) {
+            const date = new Date(trade.timestamp).toISOString().split('T')[0];
+            if (!days.has(date)) days.set(date, { date, ...emptyBreakdown() });
+            addToBreakdown(days.get(date)!, trade);
+        }
+        return Array.from(days.values());
+    }
+
+    printStatistics(query: TradeQuery = {}): void {
+        const stats = this.getStatistics(query);
+        const pnl = (value: number) => (value >= 0 ? chalk.green : chalk.red)(value.toFixed(4));
+
+        console.log(chalk.bold('\n📊 TRADE STATISTICS'));
+        console.log(`Trades: ${stats.trades} | Success: ${stats.successful} | Failed: ${stats.failed} | Skipped: ${stats.skipped} | Pending: ${stats.pending}`);
+        console.log(`Win rate: ${(stats.winRate * 100).toFixed(1)}%`);
+        console.log(`Gross PnL: ${formatAmounts(stats.grossProfitQuote, pnl)} | Net PnL: ${formatAmounts(stats.netProfitQuote, pnl)} | Gas: ${formatAmounts(stats.gasSpent, value => value.toFixed(6))}`);
+
+        console.log(chalk.bold('\nBy pair:'));
+        for (const [pair, s] of Object.entries(stats.byPair)) {
+            console.log(`  ${pair}: ${s.successful}/${s.trades} ok, net ${formatAmounts(s.netProfitQuote, pnl)}`);
+        }
+
+        console.log(chalk.bold('\nBy DEX:'));
+        for (const [dex, s] of Object.entries(stats.byDex)) {
+            console.log(`  ${dex}: ${s.successful}/${s.trades} ok, net ${formatAmounts(s.netProfitQuote, pnl)}`);
+        }
+        console.log('');
+    }
+
+    /**
+     * Reads records appended since the last call, e.g. by a bot running in another process.
+     */
+    refresh(): void {
+        if (!fs.existsSync(this.tradesFile)) return;
+
+        const size = fs.statSync(this.tradesFile).size;
+        if (size <= this.readOffset) return;
+
+        const buffer = Buffer.alloc(size - this.readOffset);
+        const fd = fs.openSync(this.tradesFile, 'r');
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, this.readOffset);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        // Leave a partially written last line for the next refresh
+        const text = buffer.toString('utf8');
+        const complete = text.slice(0, text.lastIndexOf('\n') + 1);
+        this.readOffset += Buffer.byteLength(complete);
+
+        for (const line of complete.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const trade: TradeRecord = JSON.parse(line);
+                this.trades.set(trade.id, trade);
+            } catch (e: any) {
+                console.error(chalk.red('Skipping unreadable trade record:'), e.message);
+            }
+        }
+    }
+
+    private pairOf(trade: TradeRecord): string {
+        return trade.pair || `${trade.tokenA.symbol}/${trade.tokenB.symbol}`;
+    }
+
+    private consoleLogTrade(trade: TradeRecord): void {
+        if (trade.status === 'success') {
+            console.log(chalk.bgGreen.bold(`\n✅ TRADE SUCCESS: ${trade.id}`));
+            console.log(`Profit: ${chalk.green(trade.actualProfit)} ${trade.tokenA.symbol}`);
+            console.log(`Net: ${chalk.green(trade.netProfit)} | Gas: ${trade.gasCost} ${trade.gasToken ?? ''}`);
+            console.log(`TX: ${trade.txHash}\n`);
+        } else if (trade.status === 'failed') {
+            console.log(chalk.bgRed.bold(`\n❌ TRADE FAILED: ${trade.id}`));
+            console.log(`Error: ${trade.error}`);
+            console.log(`TX: ${trade.txHash || 'N/A'}\n`);
+        } else if (trade.status === 'skipped') {
+            console.log(chalk.yellow(`\n⏭️  TRADE SKIPPED: ${trade.id} (${trade.error})\n`));
+        }
+    }
 }
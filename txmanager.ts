@@ -0,0 +1,261 @@
+// src/txmanager.ts
+
+import { ethers } from 'ethers';
+import { logInfo, logWarning } from './utils/logger';
+import { eventBus } from './events';
+
+export type DeadlineAction = 'replace' | 'cancel';
+
+export interface TxManagerOptions {
+    deadlineMs: number; // How long a transaction may stay pending before it is replaced
+    deadlineAction: DeadlineAction; // 'replace' bumps the fee, 'cancel' goes straight to a self-transfer
+    bumpPercent: number; // Fee increase per replacement; nodes require at least 10%
+    maxReplacements: number; // Speed-ups before giving up and cancelling
+    pollIntervalMs: number;
+}
+
+export const DEFAULT_TX_MANAGER_OPTIONS: TxManagerOptions = {
+    deadlineMs: 30_000,
+    deadlineAction: 'replace',
+    bumpPercent: 15,
+    maxReplacements: 2,
+    pollIntervalMs: 2_000
+};
+
+/**
+ * Final state of a nonce:
+ *   mined     one of our transactions for it was mined (it may still have reverted)
+ *   cancelled our zero-value self-transfer won the nonce
+ *   replaced  a transaction we did not send used the nonce
+ *   dropped   the node forgot every version and the nonce is still free
+ *   timeout   still pending after the cancel had its own deadline, or the node could not be
+ *             reached for a whole deadline; either way the nonce may still be mined
+ */
+export type TxOutcome =
+    | { status: 'mined'; receipt: ethers.providers.TransactionReceipt; replacements: number }
+    | { status: 'cancelled'; receipt: ethers.providers.TransactionReceipt; replacements: number }
+    | { status: 'replaced'; replacements: number }
+    | { status: 'dropped'; replacements: number }
+    | { status: 'timeout'; replacements: number };
+
+interface TrackedTx {
+    tradeId: string;
+    nonce: number;
+    request: ethers.providers.TransactionRequest; // What to resend on a speed-up
+    // Every hash broadcast for this nonce, newest last, and which one is the cancel
+    hashes: string[];
+    cancelHash?: string;
+    sentAt: number; // Of the newest version
+    replacements: number;
+}
+
+/**
+ * Follows a submitted transaction until its nonce is settled. Past the deadline the
+ * transaction is re-sent with the same nonce and a bumped fee, and once the speed-ups are
+ * used up it is cancelled with a zero-value transfer to self, so a stuck, underpriced
+ * transaction can neither hold up the scan loop nor keep the nonce forever.
+ */
+export class TransactionManager {
+    private wallet: ethers.Wallet;
+    private chain: string;
+    private options: TxManagerOptions;
+    private pending: Map<number, TrackedTx> = new Map(); // Nonce -> tracked transaction
+
+    constructor(wallet: ethers.Wallet, chain: string, options: Partial<TxManagerOptions> = {}) {
+        this.wallet = wallet;
+        this.chain = chain;
+        this.options = { ...DEFAULT_TX_MANAGER_OPTIONS, ...options };
+    }
+
+    getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Tracks a transaction that has just been sent and resolves once its nonce is settled.
+     */
+    async track(tx: ethers.providers.TransactionResponse, tradeId: string): Promise<TxOutcome> {
+        const tracked: TrackedTx = {
+            tradeId,
+            nonce: tx.nonce,
+            request: {
+                to: tx.to,
+                data: tx.data,
+                value: tx.value,
+                gasLimit: tx.gasLimit,
+                chainId: tx.chainId,
+                type: tx.type ?? undefined,
+                gasPrice: tx.type === 2 ? undefined : tx.gasPrice,
+                maxFeePerGas: tx.maxFeePerGas,
+                maxPriorityFeePerGas: tx.maxPriorityFeePerGas
+            },
+            hashes: [tx.hash],
+            sentAt: Date.now(),
+            replacements: 0
+        };
+        this.pending.set(tx.nonce, tracked);
+
+        try {
+            return await this.follow(tracked);
+        } finally {
+            this.pending.delete(tx.nonce);
+        }
+    }
+
+    /**
+     * Polls until the nonce settles. An RPC error only costs that poll: the transaction may
+     * still be pending, so tracking goes on until it settles or, if the node stays
+     * unreachable, for one deadline after the errors started.
+     */
+    private async follow(tracked: TrackedTx): Promise<TxOutcome> {
+        let failingSince: number | null = null;
+
+        while (true) {
+            await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+
+            try {
+                const outcome = await this.poll(tracked);
+                failingSince = null;
+                if (outcome) return outcome;
+            } catch (error: any) {
+                failingSince ??= Date.now();
+                logWarning('Transaction poll failed', { tradeId: tracked.tradeId, nonce: tracked.nonce, error: error.message });
+
+                // Still pending as far as we know, so the nonce stays used
+                if (Date.now() - failingSince >= this.options.deadlineMs) {
+                    logWarning('Stopped tracking transaction: node unreachable past the deadline', { tradeId: tracked.tradeId, nonce: tracked.nonce });
+                    return { status: 'timeout', replacements: tracked.replacements };
+                }
+            }
+        }
+    }
+
+    /**
+     * One round of checks: the outcome once the nonce is settled, otherwise null after any
+     * speed-up or cancel the deadline calls for.
+     */
+    private async poll(tracked: TrackedTx): Promise<TxOutcome | null> {
+        const provider = this.wallet.provider;
+
+        for (const hash of tracked.hashes) {
+            const receipt = await provider.getTransactionReceipt(hash);
+            if (!receipt) continue;
+
+            if (hash === tracked.cancelHash) {
+                logWarning('Transaction cancelled', { tradeId: tracked.tradeId, nonce: tracked.nonce, txHash: hash });
+                return { status: 'cancelled', receipt, replacements: tracked.replacements };
+            }
+            return { status: 'mined', receipt, replacements: tracked.replacements };
+        }
+
+        // A mined nonce with none of our receipts means someone else's transaction took it
+        const minedNonce = await provider.getTransactionCount(this.wallet.address, 'latest');
+        if (minedNonce > tracked.nonce) {
+            // Re-check once: our receipt may have landed between the two calls
+            for (const hash of tracked.hashes) {
+                const receipt = await provider.getTransactionReceipt(hash);
+                if (receipt) {
+                    return hash === tracked.cancelHash
+                        ? { status: 'cancelled', receipt, replacements: tracked.replacements }
+                        : { status: 'mined', receipt, replacements: tracked.replacements };
+                }
+            }
+            logWarning('Nonce used by an unknown transaction', { tradeId: tracked.tradeId, nonce: tracked.nonce });
+            return { status: 'replaced', replacements: tracked.replacements };
+        }
+
+        if (Date.now() - tracked.sentAt < this.options.deadlineMs) return null;
+
+        if (await this.isDropped(tracked)) {
+            logWarning('Transaction dropped from the mempool', { tradeId: tracked.tradeId, nonce: tracked.nonce });
+            return { status: 'dropped', replacements: tracked.replacements };
+        }
+
+        // The cancel had its own deadline and still sits in the mempool; stop waiting on it
+        if (tracked.cancelHash) {
+            logWarning('Transaction still pending after cancel', { tradeId: tracked.tradeId, nonce: tracked.nonce });
+            return { status: 'timeout', replacements: tracked.replacements };
+        }
+
+        const speedUp = this.options.deadlineAction === 'replace' && tracked.replacements < this.options.maxReplacements;
+        await this.resend(tracked, speedUp ? 'speedup' : 'cancel');
+        return null;
+    }
+
+    private async isDropped(tracked: TrackedTx): Promise<boolean> {
+        for (const hash of tracked.hashes) {
+            if (await this.wallet.provider.getTransaction(hash)) return false;
+        }
+        return true;
+    }
+
+    private async resend(tracked: TrackedTx, kind: 'speedup' | 'cancel'): Promise<void> {
+        const fees = await this.bumpedFees(tracked.request);
+        const request: ethers.providers.TransactionRequest = kind === 'speedup'
+            ? { ...tracked.request, ...fees, nonce: tracked.nonce }
+            : {
+                to: this.wallet.address,
+                value: 0,
+                gasLimit: 21_000,
+                chainId: tracked.request.chainId,
+                type: tracked.request.type,
+                ...fees,
+                nonce: tracked.nonce
+            };
+
+        try {
+            const tx = await this.wallet.sendTransaction(request);
+            const previousHash = tracked.hashes[tracked.hashes.length - 1];
+
+            tracked.hashes.push(tx.hash);
+            tracked.request = kind === 'speedup' ? { ...tracked.request, ...fees } : tracked.request;
+            tracked.cancelHash = kind === 'cancel' ? tx.hash : tracked.cancelHash;
+            tracked.sentAt = Date.now();
+            tracked.replacements++;
+
+            logInfo(kind === 'speedup' ? 'Transaction sped up' : 'Transaction cancel sent', {
+                tradeId: tracked.tradeId,
+                nonce: tracked.nonce,
+                txHash: tx.hash
+            });
+            eventBus.publish({
+                type: 'tx_replaced',
+                chain: this.chain,
+                tradeId: tracked.tradeId,
+                nonce: tracked.nonce,
+                previousHash,
+                txHash: tx.hash,
+                kind
+            });
+        } catch (error: any) {
+            // Usually "nonce too low" because the original was mined meanwhile; the next poll sees it
+            logWarning(`Failed to ${kind === 'speedup' ? 'speed up' : 'cancel'} transaction`, {
+                tradeId: tracked.tradeId,
+                nonce: tracked.nonce,
+                error: error.message
+            });
+            tracked.sentAt = Date.now();
+        }
+    }
+
+    /**
+     * The previous fees raised by bumpPercent, or the network's current fees if those are
+     * higher. Nodes reject a replacement unless both EIP-1559 fees go up.
+     */
+    private async bumpedFees(previous: ethers.providers.TransactionRequest): Promise<ethers.providers.TransactionRequest> {
+        const feeData = await this.wallet.provider.getFeeData();
+        const bump = (value: ethers.BigNumberish | undefined, current: ethers.BigNumber | null) => {
+            // Round up so small fees still clear the node's minimum bump
+            const bumped = ethers.BigNumber.from(value ?? 0).mul(100 + this.options.bumpPercent).add(99).div(100);
+            return current && current.gt(bumped) ? current : bumped;
+        };
+
+        if (previous.type === 2 || previous.maxFeePerGas !== undefined) {
+            return {
+                maxFeePerGas: bump(previous.maxFeePerGas, feeData.maxFeePerGas),
+                maxPriorityFeePerGas: bump(previous.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas)
+            };
+        }
+        return { gasPrice: bump(previous.gasPrice, feeData.gasPrice) };
+    }
+}
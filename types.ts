@@ -0,0 +1,110 @@
+// src/types.ts
+
+import { ethers } from 'ethers';
+import { SwapHop } from './sizing';
+import { FlashLoanQuote } from './flashloan';
+import { LatencyStats } from './latency';
+import { EndpointHealth } from './providerpool';
+
+export interface ChainConfig {
+    name: string;
+    rpcHttp: string[]; // Reads go to the healthiest; see RpcPool
+    rpcWss: string[]; // Tried in order when a socket drops
+    chainId: number;
+    contractAddress: string; // Deployed flash-loan arbitrage contract
+    gasToken: string;
+    wrappedNative: string; // ERC-20 wrapper of gasToken, used to price gas in other tokens
+    quoteToken: string; // Symbol of the token all opportunities are compared in
+    dexes: DEXConfig[];
+    tokens: TokenConfig[];
+    maxPriorityFee: bigint;
+    minBalance: string;
+    risk: RiskLimits;
+    flashLoanProviders: FlashLoanProviderConfig[];
+}
+
+export interface RiskLimits {
+    maxGasPerHour: string; // Gas token spent in any rolling hour, whole units
+    maxConsecutiveReverts: number;
+    maxDailyLossQuote: string; // Net loss per UTC day, in the quote token
+    maxNotionalQuote: string; // Largest single trade, in the quote token
+    minBalance: string; // Gas token the wallet must keep, whole units
+}
+
+export type FlashLoanKind = 'aave' | 'uniswapV2' | 'balancer';
+
+export interface FlashLoanProviderConfig {
+    kind: FlashLoanKind;
+    name: string;
+    address?: string; // Aave pool or Balancer vault; flash swaps borrow from the chain's DEX pairs
+    feeBps?: number; // Aave and Balancer; a flash swap pays its pair's swap fee
+}
+
+export type DexKind = 'v2' | 'v3';
+
+export interface DEXConfig {
+    name: string;
+    kind: DexKind; // v2: constant-product pairs; v3: concentrated-liquidity pools, one DEX entry per fee tier
+    router: string;
+    factory: string;
+    feeBps: number; // Swap fee charged by the pair, in basis points (30 = 0.3%); for v3 the pool's fee tier
+}
+
+export interface TokenConfig {
+    symbol: string;
+    address: string;
+    decimals: number;
+    maxBorrow?: string; // Per-token exposure limit for a single flash loan, in whole tokens
+    maxNotionalQuote?: string; // Risk cap for trades borrowing this token, overrides risk.maxNotionalQuote
+}
+
+export interface ProfitPoint {
+    borrowAmount: ethers.BigNumber;
+    profit: ethers.BigNumber;
+}
+
+export interface BotStatus {
+    chain: string;
+    mode: 'live' | 'paper';
+    running: boolean;
+    paused: boolean; // Risk manager circuit breaker
+    wallet: string;
+    startedAt?: number;
+    lastScanAt?: number;
+    scanCount: number;
+    scanErrors: number;
+    lastError?: string;
+    lastBlock?: number; // Latest head seen on the WebSocket
+    endpoints?: EndpointHealth[];
+    latency?: ScanLatency;
+}
+
+export interface ScanLatency {
+    budgetMs: number; // Longest a trade may take from detection to submission
+    overBudget: number; // Trades dropped for exceeding it
+    detectionToSubmission: LatencyStats; // From the block or Sync log that revealed the trade to sending it
+    scan: LatencyStats; // One pass of the finder over the changed pools
+}
+
+export interface Opportunity {
+    id: string;
+    tokenA: TokenConfig;
+    tokenB: TokenConfig;
+    buyDex: string;
+    sellDex: string;
+    buyDexName: string;
+    sellDexName: string;
+    profitPercent: number;
+    estimatedProfit: ethers.BigNumber; // Gross profit in tokenA, before gas
+    estimatedGas: ethers.BigNumber;
+    gasCost: ethers.BigNumber; // Estimated gas converted to tokenA
+    netProfit: ethers.BigNumber; // estimatedProfit - gasCost, in tokenA
+    netProfitQuote: ethers.BigNumber; // netProfit converted to the chain's quote token
+    borrowAmount: ethers.BigNumber;
+    sizeLimitedBy: 'optimal' | 'liquidity' | 'exposure';
+    profitCurve: ProfitPoint[];
+    pathBuy: string[]; // Token path swapped on buyDex, starting at tokenA
+    pathSell: string[]; // Token path swapped on sellDex, ending at tokenA
+    hops: SwapHop[]; // Pools the route trades through, in order
+    flashLoan: FlashLoanQuote; // Cheapest lender that can fund borrowAmount
+}